@@ -0,0 +1,703 @@
+/**
+ * Custom Elements Manifest + framework typings generator
+ *
+ * Reads every `defineComponent()` schema in src/components (props and `emits`,
+ * including those its `behaviors` add, methods, SLOT usage) with the
+ * TypeScript compiler API and writes:
+ *
+ *   dist/custom-elements.json   Custom Elements Manifest (schema 2.1.0)
+ *   dist/elements.d.ts          Element interfaces, HTMLElementTagNameMap and
+ *                               the IIFE build's `waria` global
+ *   dist/jsx/react.d.ts         React JSX.IntrinsicElements
+ *   dist/jsx/preact.d.ts        Preact JSX.IntrinsicElements
+ *   dist/jsx/vue.d.ts           Vue GlobalComponents
+ *
+ * Run after `tsc -p tsconfig.build.json` (see the `build` script).
+ */
+
+import { mkdirSync, readdirSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const componentsDir = join(root, "src/components");
+const outDir = join(root, "dist");
+
+// ─────────────────────────────────────────────────────────────
+// Program
+// ─────────────────────────────────────────────────────────────
+
+const config = ts.getParsedCommandLineOfConfigFile(
+  join(root, "tsconfig.json"),
+  {},
+  { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} },
+);
+
+const componentFiles = readdirSync(componentsDir)
+  .filter((file) => file.endsWith(".ts") && file !== "index.ts")
+  .sort()
+  .map((file) => join(componentsDir, file));
+
+const apiFile = join(root, "src/api.ts");
+const program = ts.createProgram([...componentFiles, apiFile], config.options);
+const checker = program.getTypeChecker();
+
+// Types the public API exports; member types may name them (RouteParams)
+const apiTypes = checker
+  .getExportsOfModule(
+    checker.getSymbolAtLocation(program.getSourceFile(apiFile)),
+  )
+  .filter((symbol) => {
+    const flags =
+      symbol.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(symbol).flags
+        : symbol.flags;
+    return flags & (ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Interface);
+  })
+  .map((symbol) => symbol.name);
+
+// ─────────────────────────────────────────────────────────────
+// AST helpers
+// ─────────────────────────────────────────────────────────────
+
+/** Find a property initializer in an object literal */
+function getProperty(object, name) {
+  for (const prop of object.properties) {
+    if (ts.isPropertyAssignment(prop) && prop.name.getText() === name) {
+      return prop.initializer;
+    }
+    if (ts.isShorthandPropertyAssignment(prop) && prop.name.text === name) {
+      return prop.name;
+    }
+  }
+  return undefined;
+}
+
+/** Statically evaluate a literal, following `const` references */
+function evaluate(node) {
+  if (!node) return undefined;
+  if (ts.isAsExpression(node) || ts.isParenthesizedExpression(node)) {
+    return evaluate(node.expression);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken
+  ) {
+    const value = evaluate(node.operand);
+    return typeof value === "number" ? -value : undefined;
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map(evaluate);
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const result = {};
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop)) {
+        result[prop.name.getText()] = evaluate(prop.initializer);
+      }
+    }
+    return result;
+  }
+  if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+    let symbol = checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    const decl = symbol?.valueDeclaration;
+    if (
+      decl &&
+      (ts.isVariableDeclaration(decl) ||
+        ts.isPropertyAssignment(decl) ||
+        ts.isBindingElement(decl))
+    ) {
+      return evaluate(decl.initializer);
+    }
+  }
+  return undefined;
+}
+
+/** Leading JSDoc text of a node */
+function jsDocText(node) {
+  const text = ts
+    .getJSDocCommentsAndTags(node)
+    .map((doc) => ts.getTextOfJSDocComment(doc.comment) ?? "")
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+/** Walk every descendant node */
+function walk(node, visit) {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+const toKebabCase = (str) => str.replace(/([A-Z])/g, "-$1").toLowerCase();
+
+const toClassName = (tag) =>
+  tag
+    .split("-")
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("") + "Element";
+
+const TYPE_TEXT = {
+  String: "string",
+  Number: "number",
+  Boolean: "boolean",
+  Date: "Date",
+  Array: "unknown[]",
+  Object: "Record<string, unknown>",
+};
+
+const typeText = (type) =>
+  checker.typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation);
+
+// ─────────────────────────────────────────────────────────────
+// Slots (from SLOT in constants.ts)
+// ─────────────────────────────────────────────────────────────
+
+/** SLOT key -> w-slot attribute (`items` and `item` both map to "item") */
+const slotNames = new Map();
+{
+  const constants = program.getSourceFile(join(root, "src/constants.ts"));
+  walk(constants, (node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      node.name.getText() === "SLOT" &&
+      node.initializer
+    ) {
+      const slot = evaluate(node.initializer);
+      for (const [key, selector] of Object.entries(slot)) {
+        const match = /w-slot\[([\w-]+)\]/.exec(selector);
+        if (match) slotNames.set(key, match[1]);
+      }
+    }
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// Schema extraction
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * `overrides` are the options a behavior factory was called with: a prop
+ * default naming one of them (`default: placement`) takes its value.
+ */
+function readProps(schema, overrides = {}) {
+  const list = getProperty(schema, "props");
+  if (!list || !ts.isArrayLiteralExpression(list)) return [];
+
+  const readDefault = (node) =>
+    node && ts.isIdentifier(node) && node.text in overrides
+      ? overrides[node.text]
+      : evaluate(node);
+
+  return list.elements.filter(ts.isObjectLiteralExpression).map((prop) => {
+    const name = evaluate(getProperty(prop, "name"));
+    const type = getProperty(prop, "type")?.getText() ?? "String";
+    const values = evaluate(getProperty(prop, "values"));
+    const converter = getProperty(prop, "converter");
+
+    let text = TYPE_TEXT[type] ?? "string";
+    if (Array.isArray(values) && values.length > 0) {
+      text = values.map((value) => JSON.stringify(value)).join(" | ");
+    } else if (converter) {
+      const parse = checker.getTypeAtLocation(converter).getProperty("parse");
+      const signature = parse
+        ? checker
+            .getTypeOfSymbolAtLocation(parse, converter)
+            .getCallSignatures()[0]
+        : undefined;
+      if (signature) text = typeText(signature.getReturnType());
+    }
+
+    return {
+      name,
+      attribute: evaluate(getProperty(prop, "attribute")) ?? toKebabCase(name),
+      type: text,
+      default: readDefault(getProperty(prop, "default")),
+      reflects: evaluate(getProperty(prop, "reflect")) !== false,
+      description: jsDocText(prop),
+    };
+  });
+}
+
+/**
+ * Behaviors listed in the schema, each as the `defineBehavior({...})`
+ * object its factory returns plus the options it was called with
+ * (`const popup = floating({ placement: "top" })`)
+ */
+function readBehaviors(schema) {
+  const list = getProperty(schema, "behaviors");
+  if (!list || !ts.isArrayLiteralExpression(list)) return [];
+
+  return list.elements.flatMap((element) => {
+    let call = element;
+    if (ts.isIdentifier(call)) {
+      const decl = checker.getSymbolAtLocation(call)?.valueDeclaration;
+      call = decl && ts.isVariableDeclaration(decl) ? decl.initializer : null;
+    }
+    if (!call || !ts.isCallExpression(call)) return [];
+
+    let symbol = checker.getSymbolAtLocation(call.expression);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    const factory = symbol?.valueDeclaration;
+    if (!factory) return [];
+
+    let behavior = null;
+    walk(factory, (node) => {
+      if (
+        !behavior &&
+        ts.isCallExpression(node) &&
+        node.expression.getText() === "defineBehavior" &&
+        node.arguments[0] &&
+        ts.isObjectLiteralExpression(node.arguments[0])
+      ) {
+        behavior = node.arguments[0];
+      }
+    });
+    if (!behavior) return [];
+
+    return [{ schema: behavior, options: evaluate(call.arguments[0]) ?? {} }];
+  });
+}
+
+/** Props and events of the behaviors, then the schema's own (which win) */
+function mergeByName(lists) {
+  const merged = new Map();
+  for (const item of lists.flat()) merged.set(item.name, item);
+  return [...merged.values()];
+}
+
+/** Handler names bound through schema `events` (internal, not public API) */
+function readHandlerNames(schema) {
+  const names = new Set();
+  const events = getProperty(schema, "events");
+  if (events) {
+    walk(events, (node) => {
+      if (ts.isPropertyAssignment(node) && node.name.getText() === "handler") {
+        const value = evaluate(node.initializer);
+        if (typeof value === "string") names.add(value);
+      }
+    });
+  }
+  return names;
+}
+
+function toMethod(name, node) {
+  const fn =
+    ts.isMethodDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node)
+      ? node
+      : null;
+  if (!fn) return null;
+
+  const signature = checker.getSignatureFromDeclaration(fn);
+  return {
+    kind: "method",
+    name,
+    description: jsDocText(node),
+    parameters: fn.parameters.map((param) => ({
+      name: param.name.getText(),
+      optional: Boolean(param.questionToken || param.initializer) || undefined,
+      type: { text: typeText(checker.getTypeAtLocation(param)) },
+    })),
+    return: signature
+      ? { type: { text: typeText(signature.getReturnType()) } }
+      : undefined,
+  };
+}
+
+/** Public methods: schema `methods` plus Object.assign(ctx.element, {...}) */
+function readMethods(schema, setup, handlers) {
+  const methods = [];
+  const add = (prop) => {
+    const name = prop.name?.getText();
+    if (!name || handlers.has(name) || name.startsWith("_")) return;
+    const node = ts.isPropertyAssignment(prop) ? prop.initializer : prop;
+    const method = toMethod(name, node);
+    if (method) {
+      method.description ??= jsDocText(prop);
+      methods.push(method);
+    }
+  };
+
+  const declared = getProperty(schema, "methods");
+  if (declared && ts.isObjectLiteralExpression(declared)) {
+    declared.properties.forEach(add);
+  }
+
+  if (setup) {
+    walk(setup, (node) => {
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.getText() === "Object.assign" &&
+        node.arguments.length === 2 &&
+        ts.isObjectLiteralExpression(node.arguments[1])
+      ) {
+        node.arguments[1].properties.forEach(add);
+      }
+    });
+  }
+
+  return methods;
+}
+
+/** Events declared in the schema's `emits` (`change: detail<{...}>()`) */
+function readEvents(schema) {
+  const emits = getProperty(schema, "emits");
+  if (!emits || !ts.isObjectLiteralExpression(emits)) return [];
+
+  return emits.properties.filter(ts.isPropertyAssignment).map((prop) => {
+    const call = prop.initializer;
+    const typeNode = ts.isCallExpression(call)
+      ? call.typeArguments?.[0]
+      : undefined;
+    const text = typeNode
+      ? typeText(checker.getTypeFromTypeNode(typeNode))
+      : "undefined";
+    return {
+      name: ts.isStringLiteral(prop.name)
+        ? prop.name.text
+        : prop.name.getText(),
+      type: { text: `CustomEvent<${text}>` },
+      description: jsDocText(prop),
+    };
+  });
+}
+
+/** Slots referenced through SLOT.<name> */
+function readSlots(source) {
+  const slots = new Set();
+  walk(source, (node) => {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      node.expression.getText() === "SLOT" &&
+      slotNames.has(node.name.text)
+    ) {
+      slots.add(slotNames.get(node.name.text));
+    }
+  });
+  return [...slots].sort().map((name) => ({
+    name,
+    description: `Content of <w-slot ${name}>`,
+  }));
+}
+
+function readComponent(file) {
+  const source = program.getSourceFile(file);
+  let result = null;
+
+  walk(source, (node) => {
+    if (
+      result ||
+      !ts.isCallExpression(node) ||
+      node.expression.getText() !== "defineComponent" ||
+      !node.arguments[0] ||
+      !ts.isObjectLiteralExpression(node.arguments[0])
+    ) {
+      return;
+    }
+
+    const schema = node.arguments[0];
+    const tag = evaluate(getProperty(schema, "tag"));
+    const setup = schema.properties.find(
+      (prop) => prop.name?.getText() === "setup",
+    );
+    const statement = ts.findAncestor(node, ts.isExpressionStatement);
+    const behaviors = readBehaviors(schema);
+
+    result = {
+      tag,
+      name: toClassName(tag),
+      description: statement ? jsDocText(statement) : undefined,
+      formAssociated: evaluate(getProperty(schema, "formAssociated")) === true,
+      props: mergeByName([
+        ...behaviors.map((behavior) =>
+          readProps(behavior.schema, behavior.options),
+        ),
+        readProps(schema),
+      ]),
+      methods: readMethods(schema, setup, readHandlerNames(schema)),
+      events: mergeByName([
+        ...behaviors.map((behavior) => readEvents(behavior.schema)),
+        readEvents(schema),
+      ]),
+      slots: tag === "w-slot" ? [] : readSlots(source),
+    };
+  });
+
+  return result;
+}
+
+const components = componentFiles
+  .map((file) => ({ file, component: readComponent(file) }))
+  .filter(({ component }) => component?.tag);
+
+// ─────────────────────────────────────────────────────────────
+// custom-elements.json
+// ─────────────────────────────────────────────────────────────
+
+const stringify = (value) =>
+  value === undefined ? undefined : JSON.stringify(value);
+
+const manifest = {
+  schemaVersion: "2.1.0",
+  modules: components.map(({ file, component }) => {
+    const path = `dist/components/${file.slice(componentsDir.length + 1, -3)}.js`;
+    return {
+      kind: "javascript-module",
+      path,
+      declarations: [
+        {
+          kind: "class",
+          name: component.name,
+          tagName: component.tag,
+          customElement: true,
+          description: component.description,
+          superclass: { name: "HTMLElement" },
+          attributes: component.props.map((prop) => ({
+            name: prop.attribute,
+            fieldName: prop.name,
+            type: { text: prop.type },
+            default: stringify(prop.default),
+            description: prop.description,
+          })),
+          members: [
+            ...component.props.map((prop) => ({
+              kind: "field",
+              name: prop.name,
+              type: { text: prop.type },
+              default: stringify(prop.default),
+              attribute: prop.attribute,
+              reflects: prop.reflects || undefined,
+              description: prop.description,
+            })),
+            ...component.methods,
+          ],
+          events: component.events,
+          slots: component.slots,
+        },
+      ],
+      exports: [
+        {
+          kind: "custom-element-definition",
+          name: component.tag,
+          declaration: { name: component.name, module: path },
+        },
+      ],
+    };
+  }),
+};
+
+// ─────────────────────────────────────────────────────────────
+// Typings
+// ─────────────────────────────────────────────────────────────
+
+const HEADER =
+  "// Generated by scripts/manifest.mjs from custom-elements.json. Do not edit.\n";
+
+/** Declarations come straight from the manifest, not the AST */
+const declarations = manifest.modules.map((mod) => mod.declarations[0]);
+
+const quote = (name) => (/^[a-z_$][\w$]*$/i.test(name) ? name : `"${name}"`);
+
+const docComment = (text, indent) =>
+  text ? `${indent}/** ${text.replace(/\s*\n\s*/g, " ")} */\n` : "";
+
+const methodSignature = (method) =>
+  `${method.name}(${method.parameters
+    .map((p) => `${p.name}${p.optional ? "?" : ""}: ${p.type.text}`)
+    .join(", ")}): ${method.return?.type.text ?? "void"};`;
+
+/** Attribute props for JSX: one optional key per attribute and w-<event> handler */
+function jsxAttributes(decl, indent) {
+  const lines = decl.attributes.map(
+    (attr) =>
+      `${docComment(attr.description, indent)}${indent}${quote(attr.name)}?: ${attr.type.text};`,
+  );
+  for (const event of decl.events) {
+    lines.push(`${indent}${quote(`w-${event.name}`)}?: string;`);
+  }
+  return lines.join("\n");
+}
+
+/** Event map type plus typed add/removeEventListener overloads */
+function eventMembers(decl) {
+  if (decl.events.length === 0) return { map: "", members: [] };
+
+  const mapName = `${decl.name}EventMap`;
+  const names = decl.events.map((event) => `"${event.name}"`).join(" | ");
+  const entries = decl.events
+    .map(
+      (event) =>
+        `${docComment(event.description, "  ")}  ${quote(event.name)}: ${event.type.text};`,
+    )
+    .join("\n");
+
+  // Omit first: names like "toggle" or "change" clash with native event types
+  const map = `export type ${mapName} = Omit<HTMLElementEventMap, ${names}> & {\n${entries}\n};\n\n`;
+
+  const members = [
+    `  addEventListener<K extends keyof ${mapName}>(type: K, listener: (this: ${decl.name}, ev: ${mapName}[K]) => any, options?: boolean | AddEventListenerOptions): void;`,
+    `  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;`,
+    `  removeEventListener<K extends keyof ${mapName}>(type: K, listener: (this: ${decl.name}, ev: ${mapName}[K]) => any, options?: boolean | EventListenerOptions): void;`,
+    `  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;`,
+  ];
+
+  return { map, members };
+}
+
+function elementsDts() {
+  const interfaces = declarations.map((decl) => {
+    const members = decl.members.map((member) =>
+      member.kind === "field"
+        ? `${docComment(member.description, "  ")}  ${member.name}: ${member.type.text};`
+        : `${docComment(member.description, "  ")}  ${methodSignature(member)}`,
+    );
+    const events = eventMembers(decl);
+    members.push(...events.members);
+    return `${events.map}${docComment(decl.description, "")}export interface ${decl.name} extends HTMLElement {\n${members.join("\n")}\n}`;
+  });
+
+  const map = declarations
+    .map((decl) => `    "${decl.tagName}": ${decl.name};`)
+    .join("\n");
+
+  const slotUnion = [...new Set(slotNames.values())]
+    .map((name) => `  | "${name}"`)
+    .join("\n");
+
+  const body = interfaces.join("\n\n");
+  const used = apiTypes.filter((name) =>
+    new RegExp(`\\b${name}\\b`).test(body),
+  );
+  const imports = used.length
+    ? `import type { ${used.join(", ")} } from "./index";\n`
+    : "";
+
+  return `${HEADER}
+import type * as Waria from "./index";
+${imports}
+/** Slot names a <w-slot> accepts as boolean attributes */
+export type WariaSlotName =
+${slotUnion};
+
+${body}
+
+declare global {
+  /** The IIFE build's global (\`<script src=".../waria.iife.js">\`) */
+  const waria: typeof Waria;
+
+  interface HTMLElementTagNameMap {
+${map}
+  }
+}
+`;
+}
+
+function reactDts() {
+  const entries = declarations
+    .map(
+      (decl) =>
+        `      "${decl.tagName}": WariaAttributes<${decl.name}> & {\n${jsxAttributes(decl, "        ")}\n      };`,
+    )
+    .join("\n");
+
+  return `${HEADER}
+import type { DetailedHTMLProps, HTMLAttributes } from "react";
+import type { ${declarations.map((d) => d.name).join(", ")} } from "../elements";
+
+type WariaAttributes<E extends HTMLElement> = DetailedHTMLProps<
+  HTMLAttributes<E>,
+  E
+> & { class?: string; [key: string]: unknown };
+
+declare module "react" {
+  namespace JSX {
+    interface IntrinsicElements {
+${entries}
+    }
+  }
+}
+`;
+}
+
+function preactDts() {
+  const entries = declarations
+    .map(
+      (decl) =>
+        `      "${decl.tagName}": WariaAttributes<${decl.name}> & {\n${jsxAttributes(decl, "        ")}\n      };`,
+    )
+    .join("\n");
+
+  return `${HEADER}
+import type { JSX } from "preact";
+import type { WariaSlotName, ${declarations.map((d) => d.name).join(", ")} } from "../elements";
+
+type WariaAttributes<E extends HTMLElement> = JSX.HTMLAttributes<E> & {
+  [key: string]: unknown;
+};
+
+declare module "preact" {
+  namespace JSX {
+    interface HTMLAttributes<RefType extends EventTarget = EventTarget> {
+      slot?: WariaSlotName | (string & {});
+      name?: string;
+    }
+    interface IntrinsicElements {
+${entries}
+    }
+  }
+}
+`;
+}
+
+function vueDts() {
+  const entries = declarations
+    .map(
+      (decl) =>
+        `    "${decl.tagName}": DefineComponent<{\n${jsxAttributes(decl, "      ")}\n    }>;`,
+    )
+    .join("\n");
+
+  return `${HEADER}
+import type { DefineComponent } from "vue";
+
+declare module "vue" {
+  interface GlobalComponents {
+${entries}
+  }
+}
+`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Write
+// ─────────────────────────────────────────────────────────────
+
+mkdirSync(join(outDir, "jsx"), { recursive: true });
+
+writeFileSync(
+  join(outDir, "custom-elements.json"),
+  JSON.stringify(manifest, null, 2) + "\n",
+);
+writeFileSync(join(outDir, "elements.d.ts"), elementsDts());
+writeFileSync(join(outDir, "jsx/react.d.ts"), reactDts());
+writeFileSync(join(outDir, "jsx/preact.d.ts"), preactDts());
+writeFileSync(join(outDir, "jsx/vue.d.ts"), vueDts());
+
+console.log(
+  `custom-elements.json: ${declarations.length} components -> ${outDir}`,
+);
@@ -0,0 +1,236 @@
+/**
+ * WC-Aria - Public API without component registrations
+ *
+ * Import this entry together with individual components
+ * (`@dufeut/waria/components/dialog`) to ship only what a page uses.
+ */
+
+// Core Layer - Performance primitives
+export {
+  scheduler,
+  cache,
+  createEventScope,
+  setKeymap,
+  createState,
+  createDerived,
+  signal,
+  computed,
+  effect,
+  batch,
+  untrack,
+  createTransition,
+  observeAttributes,
+  onAttributeChange,
+  getLogicalParent,
+  logicalContains,
+  matchRoute,
+} from "./core";
+export type {
+  SchedulerInstance,
+  TaskOptions,
+  TaskPriority,
+  CacheInstance,
+  CacheOptions,
+  CacheStats,
+  CacheCounter,
+  EventScope,
+  EventBinding,
+  EventBindingOptions,
+  EventHandler,
+  KeyBindings,
+  KeyBindingOptions,
+  KeyHandler,
+  Keymap,
+  State,
+  StateConfig,
+  StateSubscriber,
+  StateUpdater,
+  Signal,
+  Computed,
+  SignalOptions,
+  EffectFn,
+  Transition,
+  TransitionConfig,
+  TransitionKeyframes,
+  TransitionState,
+  AttributeObserverConfig,
+  ErrorHandler,
+  ErrorInfo,
+  ErrorPhase,
+  RouteParams,
+  RouteMatchOptions,
+} from "./core";
+
+// ARIA Utilities
+export {
+  // Attributes
+  setAriaExpanded,
+  setAriaSelected,
+  setAriaChecked,
+  setAriaPressed,
+  setAriaDisabled,
+  setAriaHidden,
+  setAriaCurrent,
+  setAriaInvalid,
+  setAriaBusy,
+  setAriaHasPopup,
+  setAriaLevel,
+  setAriaPosition,
+  setAriaValue,
+  setAriaOrientation,
+  setAriaMultiselectable,
+  setAriaRequired,
+  setAriaReadonly,
+  setAriaActiveDescendant,
+  setTabIndex,
+  // Roles
+  ROLES,
+  WIDGET_ROLES,
+  COMPOSITE_ROLES,
+  LANDMARK_ROLES,
+  STRUCTURE_ROLES,
+  setRole,
+  removeRole,
+  getRole,
+  hasRole,
+  // Relationships
+  setAriaControls,
+  removeAriaControls,
+  setAriaLabelledBy,
+  setAriaLabel,
+  removeAriaLabelledBy,
+  setAriaDescribedBy,
+  removeAriaDescribedBy,
+  setAriaOwns,
+  removeAriaOwns,
+  setAriaFlowTo,
+  removeAriaFlowTo,
+  setAriaDetails,
+  removeAriaDetails,
+  setAriaErrorMessage,
+  removeAriaErrorMessage,
+  linkTriggerToContent,
+  // Live Regions
+  announce,
+  announceAssertive,
+  announcePolite,
+  setAriaLive,
+  setAriaAtomic,
+  setAriaRelevant,
+  createLiveRegion,
+  setAsStatusRegion,
+  setAsAlertRegion,
+  setAsLogRegion,
+  // ID
+  generateId,
+  ensureId,
+  generateScopedId,
+} from "./aria";
+export type { Role } from "./aria";
+
+// Infrastructure Layer
+export {
+  // Position
+  calculatePosition,
+  applyPosition,
+  position,
+  autoPosition,
+  // Focus
+  getFocusableElements,
+  getFirstFocusable,
+  getLastFocusable,
+  saveFocus,
+  restoreFocus,
+  getSavedFocus,
+  createFocusTrap,
+  createRovingTabindex,
+  // Portal
+  getPortalContainer,
+  getNextZIndex,
+  getTopStack,
+  isInStack,
+  pushStack,
+  popStack,
+  createPortal,
+  teleport,
+  portalContains,
+  // Click Outside
+  onClickOutside,
+  onClickOutsideOnce,
+  onEscapeKey,
+  onDismiss,
+} from "./infra";
+export type {
+  Placement,
+  Side,
+  Alignment,
+  PositionConfig,
+  Position,
+  FocusTrap,
+  RovingTabindex,
+  Portal,
+  ClickOutsideOptions,
+  ClickOutsideHandler,
+} from "./infra";
+
+// Component Factory
+export { defineComponent, defineBehavior, detail, resolveTag } from "./factory";
+export type {
+  Behavior,
+  ComponentSchema,
+  ComponentContext,
+  PropDefinition,
+  PropType,
+  PropConverter,
+  ChildConfig,
+  ChildDefinition,
+  EventConfig,
+  ViewportConfig,
+  AriaConfig,
+  SchemaTransitionConfig,
+  ShadowConfig,
+  CleanupFn,
+  WatchCallback,
+  FormContext,
+  FormValue,
+  FormRestoreMode,
+  InitOptions,
+  EventSpec,
+  EmitsConfig,
+  EventDetails,
+  WComponent,
+} from "./factory";
+
+// Behaviors
+export { disclosure, floating, listbox, rovingFocus } from "./behaviors";
+export type {
+  DisclosureOptions,
+  DisclosureApi,
+  FloatingOptions,
+  FloatingAttachOptions,
+  FloatingApi,
+  ListboxOptions,
+  ListboxApi,
+  RovingFocusOptions,
+  RovingFocusApi,
+} from "./behaviors";
+
+// Constants
+export { SLOT, KEY, ARIA, SR_ONLY_STYLES, ID_PREFIX } from "./constants";
+
+// App & Router
+export { App, Router } from "./app";
+export type {
+  RouteInfo,
+  RouteControls,
+  RouteContext,
+  RouteDecision,
+  RouteGuard,
+  RouteLoader,
+  RouteLoadState,
+  RouteOptions,
+} from "./app";
+import { App } from "./app";
+import type { InitOptions } from "./factory";
+export const start = (args: any, options?: InitOptions) =>
+  App.start(args, options);
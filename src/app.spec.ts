@@ -0,0 +1,176 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { Router, type RouteContext, type RouteLoadState } from "./app";
+import { onError } from "./core";
+
+const removers: Array<() => void> = [];
+
+const addRoute = (...args: Parameters<typeof Router.addRoute>): void => {
+  removers.push(Router.addRoute(...args));
+};
+
+// Resolves once pending promise callbacks (async guards, loaders) ran
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+beforeAll(() => {
+  Router.config({ hash: true });
+});
+
+afterEach(() => {
+  removers.splice(0).forEach((remove) => remove());
+  Router.config({ before: (_from, _to, { next }) => next() });
+  Router.navigate("/");
+});
+
+describe("Router guards", () => {
+  it("passes the route's params and continues when nothing is returned", () => {
+    const before = vi.fn();
+    addRoute("/users/:id", { before });
+
+    Router.navigate("/users/7");
+    expect(Router.current).toBe("/users/7");
+    expect(before).toHaveBeenCalledWith(
+      expect.objectContaining({ params: { id: "7" } })
+    );
+  });
+
+  it("cancels the navigation when a guard returns false", () => {
+    addRoute("/admin", { before: () => false });
+
+    Router.navigate("/admin");
+    expect(Router.current).toBe("/");
+  });
+
+  it("redirects when a guard returns a path", () => {
+    addRoute("/admin", { before: () => "/login" });
+
+    Router.navigate("/admin");
+    expect(Router.current).toBe("/login");
+  });
+
+  it("runs the global before hook first", () => {
+    const order: string[] = [];
+    Router.config({
+      before: (_from, _to, { next }) => {
+        order.push("global");
+        next();
+      },
+    });
+    addRoute("/settings", {
+      layout: true,
+      before: () => void order.push("layout"),
+    });
+    addRoute("/settings/profile", { before: () => void order.push("view") });
+
+    Router.navigate("/settings/profile");
+    expect(order).toEqual(["global", "layout", "view"]);
+  });
+
+  it("waits for async guards and drops a superseded navigation", async () => {
+    let signal: AbortSignal | undefined;
+    addRoute("/slow", {
+      before: (context) => {
+        signal = context.signal;
+        return new Promise((resolve) => setTimeout(() => resolve(true), 10));
+      },
+    });
+
+    Router.navigate("/slow");
+    expect(Router.current).toBe("/");
+    Router.navigate("/fast");
+    expect(signal?.aborted).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(Router.current).toBe("/fast");
+  });
+
+  it("cancels the navigation and reports when a guard throws", () => {
+    const handler = vi.fn();
+    const remove = onError(handler);
+    addRoute("/broken", {
+      before: () => {
+        throw new Error("nope");
+      },
+    });
+
+    Router.navigate("/broken");
+    remove();
+    expect(Router.current).toBe("/");
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ phase: "guard" })
+    );
+  });
+});
+
+describe("Router loaders", () => {
+  it("reports busy, then the data, with the route's params", async () => {
+    const states: RouteLoadState[] = [];
+    addRoute("/users/:id", {
+      load: async ({ params }) => ({ name: `user ${params.id}` }),
+      onLoad: (state) => states.push(state),
+    });
+
+    Router.navigate("/users/3");
+    await settle();
+    expect(states).toEqual([
+      { busy: true },
+      { busy: false, data: { name: "user 3" } },
+    ]);
+  });
+
+  it("keeps a layout's data while it stays matched with the same params", async () => {
+    const layout = vi.fn(() => Promise.resolve("layout"));
+    const child = vi.fn(() => Promise.resolve("child"));
+    addRoute("/settings", { layout: true, load: layout });
+    addRoute("/settings/:tab", { load: child });
+
+    Router.navigate("/settings/profile");
+    Router.navigate("/settings/email");
+    await settle();
+    expect(layout).toHaveBeenCalledTimes(1);
+    expect(child).toHaveBeenCalledTimes(2);
+  });
+
+  it("aborts a load whose route is left or matched with other params", () => {
+    const signals: AbortSignal[] = [];
+    addRoute("/users/:id", {
+      load: ({ signal }: RouteContext) => {
+        signals.push(signal);
+        return new Promise(() => {});
+      },
+    });
+
+    Router.navigate("/users/1");
+    Router.navigate("/users/2");
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    Router.navigate("/about");
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it("runs a failed load again on the next navigation to the route", async () => {
+    const remove = onError(() => {});
+    const load = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue("data");
+    addRoute("/feed", { layout: true, load });
+
+    Router.navigate("/feed");
+    await settle();
+    Router.navigate("/feed/latest");
+    await settle();
+    remove();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs the loaders again on reload()", () => {
+    const load = vi.fn();
+    addRoute("/dashboard", { load });
+
+    Router.navigate("/dashboard");
+    Router.reload("/dashboard");
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
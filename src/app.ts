@@ -1,21 +1,116 @@
-import { init } from "./factory";
+import { init, resolveTag, whenReady, type InitOptions } from "./factory";
+import { onError, type ErrorHandler } from "./core";
+import { report } from "./core/diagnostics";
+import {
+  matchRoute,
+  routeScore,
+  type RouteMatchOptions,
+  type RouteParams,
+} from "./core/routes";
+import { startLoader, whenLoaded } from "./loader";
 
 export interface RouteControls {
   next: () => void;
   cancel: () => void;
   redirect: (path: string) => void;
+  // Aborted when another navigation starts before this one is decided
+  signal: AbortSignal;
 }
 
 export interface RouteInfo {
   path: string;
   query: Record<string, string>;
+  // Params of the most specific registered pattern matching the path
+  // (see Router.addRoute; w-view registers its path)
+  params: RouteParams;
+  pattern: string | null;
 }
 
+// What a guard returns: false cancels, a path redirects, true continues
+export type RouteDecision = boolean | string | void;
+
+export interface RouteContext {
+  from: RouteInfo;
+  to: RouteInfo;
+  // Params of the route the guard or loader belongs to
+  params: RouteParams;
+  // Aborted when the navigation is superseded (guards) or the route is
+  // left, matched with other params or loaded again (loaders)
+  signal: AbortSignal;
+}
+
+export type RouteGuard = (
+  context: RouteContext
+) => RouteDecision | Promise<RouteDecision>;
+export type RouteLoader = (context: RouteContext) => unknown;
+
+// Reported to RouteOptions.onLoad: busy while a loader's promise is
+// pending, then the data or the error
+export interface RouteLoadState {
+  busy: boolean;
+  data?: unknown;
+  error?: unknown;
+}
+
+export interface RouteOptions extends RouteMatchOptions {
+  // Also matches every path below the pattern (a layout with nested views)
+  layout?: boolean;
+  // Routes sharing an outlet compete: only the most specific match counts
+  outlet?: object;
+  // Runs after the global before hook, parents first; undefined continues
+  before?: RouteGuard;
+  // Runs once the navigation is committed
+  load?: RouteLoader;
+  onLoad?: (state: RouteLoadState) => void;
+  // Called by Router.prefetch() to fetch what the route shows ahead of
+  // time (w-view: its `src`)
+  prefetch?: () => void;
+}
+
+interface Route {
+  pattern: string;
+  options: RouteOptions;
+}
+
+interface RouteMatch {
+  route: Route;
+  params: RouteParams;
+  score: number;
+}
+
+type Decision =
+  | { action: "next" }
+  | { action: "cancel" }
+  | { action: "redirect"; path: string };
+
+const NEXT: Decision = { action: "next" };
+const CANCEL: Decision = { action: "cancel" };
+
+// A guard's return value as a decision; undefined when it made none
+const toDecision = (value: unknown): Decision | undefined => {
+  if (value === true) return NEXT;
+  if (value === false) return CANCEL;
+  if (typeof value === "string") return { action: "redirect", path: value };
+  return undefined;
+};
+
+const isPromise = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then === "function";
+
+const sameParams = (a: RouteParams, b: RouteParams): boolean => {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+};
+
+// The global hook may decide through `controls` or by returning a decision
 type BeforeHook = (
   from: RouteInfo,
   to: RouteInfo,
   controls: RouteControls
-) => void;
+) => RouteDecision | Promise<RouteDecision>;
 type AfterHook = (from: RouteInfo, to: RouteInfo) => void;
 
 interface RouterConfig {
@@ -23,6 +118,9 @@ interface RouterConfig {
   base?: string;
   hash?: boolean;
   native?: boolean;
+  // Route pattern defaults: trailing slash must match / case-sensitive
+  strict?: boolean;
+  sensitive?: boolean;
   before?: BeforeHook;
   after?: AfterHook;
   [key: string]: unknown;
@@ -32,20 +130,38 @@ interface RouterConfig {
 export const ROUTE_CHANGE_EVENT = "w-route-change";
 
 export class App {
-  static init(): void {
-    init();
+  static init(options?: InitOptions): void {
+    init(options);
+    if (options?.lazy) startLoader(options);
   }
   static router(props: RouterConfig = {}): void {
     Router.config(props);
   }
-  static start(props: RouterConfig = {}): void {
+  static start(props: RouterConfig = {}, options?: InitOptions): void {
     Router.config(props);
-    init();
+    App.init(options);
+  }
+  // Resolves once the component is defined (with lazy, after its tag
+  // first appears); takes the canonical tag (`w-dialog`)
+  static ready(tag: string): Promise<void> {
+    return customElements.whenDefined(resolveTag(tag)).then(() => {});
+  }
+  // Resolves once init has run, lazy loads have finished and every
+  // connected component's updateComplete has resolved
+  static whenReady(): Promise<void> {
+    return whenReady(whenLoaded);
+  }
+  // Receives errors from every component (see ComponentSchema.onError);
+  // returns a function that removes the handler
+  static onError(handler: ErrorHandler): () => void {
+    return onError(handler);
   }
 }
 
 export class Router {
-  static settings: Required<Pick<RouterConfig, "sync" | "base" | "hash" | "native">> & {
+  static settings: Required<
+    Pick<RouterConfig, "sync" | "base" | "hash" | "native" | "strict" | "sensitive">
+  > & {
     before: BeforeHook;
     after: AfterHook;
   } & Record<string, unknown> = {
@@ -53,11 +169,21 @@ export class Router {
     sync: true,
     hash: false,
     native: false,
+    strict: false,
+    sensitive: false,
     before: (_from, _to, { next }) => next(),
     after: () => {},
   };
 
   private static currentRoute: string = "";
+  private static routes = new Set<Route>();
+  // Navigation whose guards are still running
+  private static pending: AbortController | null = null;
+  // Loaders still running, per route
+  private static loads = new Map<Route, AbortController>();
+  // Params each matched route's loader last ran with; a navigation that
+  // keeps them (a layout staying mounted) keeps its data
+  private static loaded = new Map<Route, RouteParams>();
   private static initialized = false;
   private static isRedirecting = false;
 
@@ -114,12 +240,99 @@ export class Router {
 
   // Create RouteInfo object from full path (with query)
   private static createRouteInfo(fullPath: string): RouteInfo {
+    const path = this.normalizePath(fullPath);
+    let best: RouteMatch | null = null;
+
+    for (const match of this.matchRoutes(path)) {
+      if (!best || match.score > best.score) best = match;
+    }
+
     return {
-      path: this.normalizePath(fullPath),
+      path,
       query: this.parseQuery(this.extractQueryString(fullPath)),
+      params: best?.params ?? {},
+      pattern: best?.route.pattern ?? null,
+    };
+  }
+
+  // Registered routes matching `path`, in registration order
+  private static matchRoutes(path: string): RouteMatch[] {
+    const matches: RouteMatch[] = [];
+    for (const route of this.routes) {
+      const params = this.match(route.pattern, path, route.options);
+      if (params) {
+        matches.push({ route, params, score: routeScore(route.pattern) });
+      }
+    }
+
+    return matches.filter(({ route, score }) => {
+      const { outlet } = route.options;
+      return (
+        !outlet ||
+        !matches.some(
+          (other) => other.route.options.outlet === outlet && other.score > score
+        )
+      );
+    });
+  }
+
+  // Match a pattern (`/users/:id`, `/files/*`) against a path (default:
+  // the current one); unset options fall back to the router settings
+  static match(
+    pattern: string,
+    path: string = this.getPath(),
+    options: RouteOptions = {}
+  ): RouteParams | null {
+    const matchOptions = {
+      strict: options.strict ?? this.settings.strict,
+      sensitive: options.sensitive ?? this.settings.sensitive,
+    };
+    const params = matchRoute(pattern, path, matchOptions);
+    if (params || !options.layout || /\*[^/]*$/.test(pattern)) return params;
+
+    // A layout also matches the paths below it, without a "*" param
+    const prefix = `${pattern.replace(/\/+$/, "")}/*`;
+    const below = matchRoute(prefix, path, matchOptions);
+    if (below) delete below["*"];
+    return below;
+  }
+
+  // Register a pattern for RouteInfo.params, with optional guard and
+  // loader; returns a function that removes it again
+  static addRoute(pattern: string, options: RouteOptions = {}): () => void {
+    const route: Route = { pattern, options };
+    this.routes.add(route);
+    return () => {
+      this.routes.delete(route);
+      this.loads.get(route)?.abort();
+      this.loads.delete(route);
+      this.loaded.delete(route);
     };
   }
 
+  // Run the loaders of the current route again (only the routes
+  // registered with `pattern`, if given)
+  static reload(pattern?: string): void {
+    const info = this.createRouteInfo(this.currentRoute || this.getRoute());
+    for (const { route, params } of this.matchRoutes(info.path)) {
+      if (pattern === undefined || route.pattern === pattern) {
+        this.runLoader(route, info, info, params);
+      }
+    }
+  }
+
+  // Prefetch what the routes matching `path` show (see RouteOptions.prefetch)
+  static prefetch(path: string): void {
+    for (const { route } of this.matchRoutes(this.normalizePath(path))) {
+      route.options.prefetch?.();
+    }
+  }
+
+  // Params of the current route
+  static get params(): RouteParams {
+    return this.createRouteInfo(this.currentRoute || this.getRoute()).params;
+  }
+
   // Get current full route (path + query, without #)
   static getRoute(): string {
     if (this.settings.hash) {
@@ -142,16 +355,28 @@ export class Router {
     return this.currentRoute;
   }
 
+  // Whether the router is running (App.start() or App.router() was called)
+  static get started(): boolean {
+    return this.initialized;
+  }
+
+  // URL of a route (path + query) as the browser shows it, with the base
+  // or the # prefix
+  static href(path: string): string {
+    const fullRoute = this.normalizeFullRoute(path);
+    if (this.settings.hash) return "#" + fullRoute;
+
+    const base = this.settings.base === "/" ? "" : this.settings.base;
+    const query = this.extractQueryString(fullRoute);
+    return base + this.normalizePath(fullRoute) + query;
+  }
+
   // Actually update the browser URL (fullRoute includes query string)
   private static updateBrowserUrl(fullRoute: string): void {
     if (this.settings.hash) {
       window.location.hash = "#" + fullRoute;
     } else {
-      const base = this.settings.base === "/" ? "" : this.settings.base;
-      const path = this.normalizePath(fullRoute);
-      const query = this.extractQueryString(fullRoute);
-      const newPath = base + path + query;
-      window.history.pushState({}, "", newPath);
+      window.history.pushState({}, "", this.href(fullRoute));
     }
   }
 
@@ -169,7 +394,193 @@ export class Router {
     );
   }
 
-  // Called by navigate() - runs before hook BEFORE changing URL
+  // Start a navigation, superseding one whose guards are still running
+  private static beginNavigation(): AbortController {
+    this.pending?.abort();
+    this.pending = new AbortController();
+    return this.pending;
+  }
+
+  /**
+   * Run the global before hook, then the guards of the routes matching
+   * `toInfo`. `done` is called once with the decision: synchronously when
+   * no guard returns a promise, never when `signal` aborts first.
+   */
+  private static runGuards(
+    fromInfo: RouteInfo,
+    toInfo: RouteInfo,
+    signal: AbortSignal,
+    done: (decision: Decision) => void
+  ): void {
+    const guards = this.matchRoutes(toInfo.path).filter(
+      ({ route }) => route.options.before
+    );
+
+    // A throwing or rejecting guard cancels the navigation
+    const fail = (error: unknown): void => {
+      if (signal.aborted) return;
+      report(error, "guard", null);
+      done(CANCEL);
+    };
+
+    const runRouteGuard = (index: number): void => {
+      if (signal.aborted) return;
+      const match = guards[index];
+      if (!match) {
+        done(NEXT);
+        return;
+      }
+
+      const proceed = (value: unknown): void => {
+        if (signal.aborted) return;
+        const decision = toDecision(value) ?? NEXT;
+        if (decision.action === "next") {
+          runRouteGuard(index + 1);
+        } else {
+          done(decision);
+        }
+      };
+
+      try {
+        const result = match.route.options.before!({
+          from: fromInfo,
+          to: toInfo,
+          params: match.params,
+          signal,
+        });
+        if (isPromise(result)) result.then(proceed, fail);
+        else proceed(result);
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    let decided = false;
+    const decide = (decision: Decision): void => {
+      if (decided || signal.aborted) return;
+      decided = true;
+      if (decision.action === "next") runRouteGuard(0);
+      else done(decision);
+    };
+
+    const controls: RouteControls = {
+      next: () => decide(NEXT),
+      cancel: () => decide(CANCEL),
+      redirect: (path: string) => decide({ action: "redirect", path }),
+      signal,
+    };
+
+    const settle = (value: unknown): void => {
+      const decision = toDecision(value);
+      if (decision) decide(decision);
+    };
+
+    try {
+      const result = this.settings.before(fromInfo, toInfo, controls);
+      if (isPromise(result)) {
+        result.then(settle, (error) => {
+          if (!decided) fail(error);
+        });
+      } else {
+        settle(result);
+      }
+    } catch (error) {
+      if (!decided) fail(error);
+    }
+  }
+
+  /**
+   * Make `toRoute` current: update the URL (unless the browser already
+   * did), notify components, run the after hook and the loaders
+   */
+  private static commit(
+    fromRoute: string,
+    toRoute: string,
+    updateUrl: boolean,
+    navigation: AbortController
+  ): void {
+    if (this.pending === navigation) this.pending = null;
+
+    // Update currentRoute BEFORE browser URL to prevent hashchange double-fire
+    this.currentRoute = toRoute;
+    if (updateUrl) this.updateBrowserUrl(toRoute);
+
+    const fromInfo = this.createRouteInfo(fromRoute);
+    const toInfo = this.createRouteInfo(toRoute);
+    this.emitRouteChange(
+      fromRoute ? this.normalizePath(fromRoute) : "",
+      this.normalizePath(toRoute)
+    );
+    this.settings.after(fromInfo, toInfo);
+
+    // Loads of routes left, or matched with other params, are stale now;
+    // routes matched as before keep their data (or their running load)
+    const matches = this.matchRoutes(toInfo.path);
+    for (const [route, params] of this.loaded) {
+      const match = matches.find((m) => m.route === route);
+      if (match && sameParams(match.params, params)) continue;
+      this.loads.get(route)?.abort();
+      this.loads.delete(route);
+      this.loaded.delete(route);
+    }
+    for (const { route, params } of matches) {
+      if (!this.loaded.has(route)) {
+        this.runLoader(route, fromInfo, toInfo, params);
+      }
+    }
+  }
+
+  private static runLoader(
+    route: Route,
+    fromInfo: RouteInfo,
+    toInfo: RouteInfo,
+    params: RouteParams
+  ): void {
+    const { load, onLoad } = route.options;
+    if (!load) return;
+
+    this.loads.get(route)?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.loaded.set(route, params);
+
+    const finish = (state: RouteLoadState): void => {
+      if (signal.aborted) return;
+      if (this.loads.get(route) === controller) this.loads.delete(route);
+      if ("error" in state) {
+        // Try again on the next navigation to the route
+        this.loaded.delete(route);
+        report(state.error, "load", null);
+      }
+      onLoad?.(state);
+    };
+
+    let result: unknown;
+    try {
+      result = load({ from: fromInfo, to: toInfo, params, signal });
+    } catch (error) {
+      finish({ busy: false, error });
+      return;
+    }
+
+    // Synchronous data is delivered right away, without a busy state
+    if (!isPromise(result)) {
+      if (result !== undefined) finish({ busy: false, data: result });
+      return;
+    }
+
+    this.loads.set(route, controller);
+    signal.addEventListener("abort", () => onLoad?.({ busy: false }), {
+      once: true,
+    });
+    onLoad?.({ busy: true });
+    result.then(
+      (data) => finish({ busy: false, data }),
+      (error) => finish({ busy: false, error })
+    );
+  }
+
+  // Called by navigate() - runs the guards BEFORE changing URL
   private static setRoute(path: string, skipHook = false): void {
     const fullRoute = this.normalizeFullRoute(path);
 
@@ -177,47 +588,28 @@ export class Router {
     if (fullRoute === this.currentRoute) return;
 
     const fromRoute = this.currentRoute;
-    const toRoute = fullRoute;
-    const fromInfo = this.createRouteInfo(fromRoute);
-    const toInfo = this.createRouteInfo(toRoute);
+    const navigation = this.beginNavigation();
 
     if (skipHook) {
-      // Skip before hook (redirect/cancel) - just update URL and state
-      // Update currentRoute BEFORE browser URL to prevent hashchange double-fire
-      this.currentRoute = fullRoute;
-      this.updateBrowserUrl(fullRoute);
-      this.emitRouteChange(this.normalizePath(fromRoute), this.normalizePath(toRoute));
-      this.settings.after(fromInfo, toInfo);
+      // Skip guards (redirect/cancel) - just update URL and state
+      this.commit(fromRoute, fullRoute, true, navigation);
       return;
     }
 
-    // Run before hook BEFORE changing URL
-    let handled = false;
-
-    const controls: RouteControls = {
-      next: () => {
-        if (handled) return;
-        handled = true;
-        // Update currentRoute BEFORE browser URL to prevent hashchange double-fire
-        this.currentRoute = toRoute;
-        this.updateBrowserUrl(fullRoute);
-        this.emitRouteChange(this.normalizePath(fromRoute), this.normalizePath(toRoute));
-        this.settings.after(fromInfo, toInfo);
-      },
-      cancel: () => {
-        if (handled) return;
-        handled = true;
-        // Don't change anything - URL stays the same
-      },
-      redirect: (redirectPath: string) => {
-        if (handled) return;
-        handled = true;
-        // Navigate to different path, skip its before hook
-        this.setRoute(redirectPath, true);
-      },
-    };
-
-    this.settings.before(fromInfo, toInfo, controls);
+    this.runGuards(
+      this.createRouteInfo(fromRoute),
+      this.createRouteInfo(fullRoute),
+      navigation.signal,
+      (decision) => {
+        if (decision.action === "next") {
+          this.commit(fromRoute, fullRoute, true, navigation);
+        } else if (decision.action === "redirect") {
+          // Navigate to different path, skip its guards
+          this.setRoute(decision.path, true);
+        }
+        // Cancel: don't change anything - URL stays the same
+      }
+    );
   }
 
   // Called by browser events (hashchange, popstate) - URL already changed
@@ -226,57 +618,39 @@ export class Router {
     if (newRoute === this.currentRoute) return;
 
     const fromRoute = this.currentRoute;
-    const toRoute = newRoute;
-    const fromInfo = this.createRouteInfo(fromRoute);
-    const toInfo = this.createRouteInfo(toRoute);
+    const navigation = this.beginNavigation();
 
     // For browser navigation (back/forward), URL is already changed
-    // Skip before hook during redirect to avoid loops
+    // Skip guards during redirect to avoid loops
     if (this.isRedirecting) {
       this.isRedirecting = false;
-      this.currentRoute = newRoute;
-      this.emitRouteChange(this.normalizePath(fromRoute), this.normalizePath(toRoute));
-      this.settings.after(fromInfo, toInfo);
+      this.commit(fromRoute, newRoute, false, navigation);
       return;
     }
 
-    // Run before hook - but URL is already changed by browser
-    let handled = false;
-
-    const controls: RouteControls = {
-      next: () => {
-        if (handled) return;
-        handled = true;
-        this.currentRoute = toRoute;
-        this.emitRouteChange(this.normalizePath(fromRoute), this.normalizePath(toRoute));
-        this.settings.after(fromInfo, toInfo);
-      },
-      cancel: () => {
-        if (handled) return;
-        handled = true;
-        // Restore previous URL
-        if (fromRoute) {
-          this.isRedirecting = true;
-          this.updateBrowserUrl(fromRoute);
+    // Run guards - but URL is already changed by browser
+    this.runGuards(
+      this.createRouteInfo(fromRoute),
+      this.createRouteInfo(newRoute),
+      navigation.signal,
+      (decision) => {
+        if (decision.action === "next") {
+          this.commit(fromRoute, newRoute, false, navigation);
+        } else if (decision.action === "cancel") {
+          // Restore previous URL
+          if (fromRoute) {
+            this.isRedirecting = true;
+            this.updateBrowserUrl(fromRoute);
+          } else {
+            this.goBack();
+          }
         } else {
-          this.goBack();
+          this.isRedirecting = true;
+          const fullRedirect = this.normalizeFullRoute(decision.path);
+          this.commit(fromRoute, fullRedirect, true, navigation);
         }
-      },
-      redirect: (redirectPath: string) => {
-        if (handled) return;
-        handled = true;
-        this.isRedirecting = true;
-        const fullRedirect = this.normalizeFullRoute(redirectPath);
-        // Update currentRoute BEFORE browser URL to prevent hashchange double-fire
-        this.currentRoute = fullRedirect;
-        this.updateBrowserUrl(fullRedirect);
-        const redirectInfo = this.createRouteInfo(fullRedirect);
-        this.emitRouteChange(this.normalizePath(fromRoute), this.normalizePath(fullRedirect));
-        this.settings.after(fromInfo, redirectInfo);
-      },
-    };
-
-    this.settings.before(fromInfo, toInfo, controls);
+      }
+    );
   };
 
   private static initListeners(): void {
@@ -286,38 +660,24 @@ export class Router {
     window.addEventListener("hashchange", this.handleBrowserNavigation);
     window.addEventListener("popstate", this.handleBrowserNavigation);
 
-    // Run before hook on initial load
+    // Run guards on initial load
     const initialRoute = this.getRoute();
-    const fromInfo = this.createRouteInfo("");
-    const toInfo = this.createRouteInfo(initialRoute);
-
-    let handled = false;
-    const controls: RouteControls = {
-      next: () => {
-        if (handled) return;
-        handled = true;
-        this.currentRoute = initialRoute;
-        this.emitRouteChange("", this.normalizePath(initialRoute));
-        this.settings.after(fromInfo, toInfo);
-      },
-      cancel: () => {
-        if (handled) return;
-        handled = true;
+    const navigation = this.beginNavigation();
+
+    this.runGuards(
+      this.createRouteInfo(""),
+      this.createRouteInfo(initialRoute),
+      navigation.signal,
+      (decision) => {
+        if (decision.action === "next") {
+          this.commit("", initialRoute, false, navigation);
+        } else if (decision.action === "redirect") {
+          const fullRedirect = this.normalizeFullRoute(decision.path);
+          this.commit("", fullRedirect, true, navigation);
+        }
         // Can't really cancel initial load, just don't update state
-      },
-      redirect: (redirectPath: string) => {
-        if (handled) return;
-        handled = true;
-        const fullRedirect = this.normalizeFullRoute(redirectPath);
-        this.currentRoute = fullRedirect;
-        this.updateBrowserUrl(fullRedirect);
-        const redirectInfo = this.createRouteInfo(fullRedirect);
-        this.emitRouteChange("", this.normalizePath(fullRedirect));
-        this.settings.after(fromInfo, redirectInfo);
-      },
-    };
-
-    this.settings.before(fromInfo, toInfo, controls);
+      }
+    );
   }
 
   static navigate(path: string): void {
@@ -0,0 +1,123 @@
+import { defineBehavior, detail, type Behavior } from "../factory";
+import { untrack } from "../core";
+import { ensureId } from "../aria";
+import { SLOT, ARIA } from "../constants";
+
+export interface DisclosureOptions {
+  /** Element that toggles the content (default: the trigger slot) */
+  trigger?: string;
+  /** Element shown while open (default: the body slot) */
+  content?: string;
+}
+
+export interface DisclosureApi {
+  readonly trigger: HTMLElement | null;
+  readonly content: HTMLElement | null;
+  open(): void;
+  close(): void;
+  toggle(): void;
+  /**
+   * Call `listener` now and whenever `open` changes, however it was set
+   * (trigger, API or the host). Runs synchronously, untracked.
+   */
+  onToggle(listener: (open: boolean) => void): void;
+}
+
+/**
+ * Disclosure - An `open` prop toggled by a trigger that shows and hides
+ * content, with aria-expanded/aria-controls kept in sync. open()/close()
+ * fire the cancelable before-events and honor `controlled`; a trigger with
+ * aria-disabled="true" doesn't open.
+ */
+export function disclosure(
+  options: DisclosureOptions = {}
+): Behavior<DisclosureApi> {
+  const {
+    trigger: triggerSelector = SLOT.trigger,
+    content: contentSelector = SLOT.body,
+  } = options;
+
+  return defineBehavior<DisclosureApi>({
+    name: "disclosure",
+
+    props: [
+      { name: "open", type: Boolean, default: false },
+      { name: "controlled", type: Boolean, default: false },
+    ],
+
+    emits: {
+      beforeopen: detail(),
+      beforeclose: detail(),
+      open: detail(),
+      close: detail(),
+    },
+
+    setup(ctx) {
+      const el = ctx.element as HTMLElement & {
+        open: boolean;
+        controlled: boolean;
+      };
+
+      // Kept once found: the content may move to a portal while open
+      let contentRef: HTMLElement | null = null;
+      const getContent = (): HTMLElement | null =>
+        (contentRef ??= ctx.query<HTMLElement>(contentSelector));
+      const getTrigger = (): HTMLElement | null =>
+        ctx.query<HTMLElement>(triggerSelector);
+
+      const listeners: Array<(open: boolean) => void> = [];
+
+      ctx.effect(() => {
+        const open = el.open;
+        const trigger = getTrigger();
+        const content = getContent();
+
+        if (content) content.hidden = !open;
+        if (trigger) {
+          trigger.setAttribute(ARIA.expanded, String(open));
+          if (content) {
+            trigger.setAttribute(
+              ARIA.controls,
+              ensureId(content, "w-disclosure")
+            );
+          }
+        }
+
+        untrack(() => {
+          for (const listener of listeners) listener(open);
+        });
+      });
+
+      const setOpen = (open: boolean): void => {
+        if (el.open === open) return;
+        if (open && getTrigger()?.getAttribute(ARIA.disabled) === "true") {
+          return;
+        }
+        if (!ctx.emit(open ? "beforeopen" : "beforeclose")) return;
+        if (!el.controlled) el.open = open;
+        ctx.emit(open ? "open" : "close");
+      };
+
+      ctx.events.on("click", triggerSelector, (e) => {
+        e.preventDefault();
+        setOpen(!el.open);
+      });
+
+      return {
+        get trigger() {
+          return getTrigger();
+        },
+        get content() {
+          return getContent();
+        },
+        open: () => setOpen(true),
+        close: () => setOpen(false),
+        toggle: () => setOpen(!el.open),
+        onToggle(listener) {
+          listeners.push(listener);
+          untrack(() => listener(el.open));
+        },
+      };
+    },
+  });
+}
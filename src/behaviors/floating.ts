@@ -0,0 +1,113 @@
+import { defineBehavior, type Behavior } from "../factory";
+import { teleport } from "../infra/portal";
+import { autoPosition, type Placement } from "../infra/position";
+import { onDismiss, onEscapeKey } from "../infra/click-outside";
+import { ensureId } from "../aria";
+import { PLACEMENT } from "../constants";
+
+export interface FloatingOptions {
+  /** Gap between reference and floating element in px (default 4) */
+  offset?: number;
+  /** Default of the `placement` prop (default `bottom`) */
+  placement?: Placement;
+}
+
+export interface FloatingAttachOptions {
+  /** Called on an outside click or Escape */
+  onDismiss?: () => void;
+  /** Escape dismisses (default true) */
+  escapeKey?: boolean;
+  /** A click outside the reference and floating element dismisses (default true) */
+  outsideClick?: boolean;
+}
+
+export interface FloatingApi {
+  /** Teleport (when `portal` is set) and position `floating` next to `reference` */
+  attach(
+    reference: HTMLElement,
+    floating: HTMLElement,
+    options?: FloatingAttachOptions
+  ): void;
+  /** Undo attach(): stop positioning and dismissal, restore from the portal */
+  detach(): void;
+}
+
+/**
+ * Floating - Portal and positioning for popup content, with `placement`
+ * and `portal` props. Teleported content carries `data-portal-owner` with
+ * the host's id. Detaches on disconnect.
+ */
+export function floating(options: FloatingOptions = {}): Behavior<FloatingApi> {
+  const { offset = 4, placement = "bottom" } = options;
+
+  return defineBehavior<FloatingApi>({
+    name: "floating",
+
+    props: [
+      {
+        name: "placement",
+        type: String,
+        default: placement,
+        values: PLACEMENT,
+      },
+      { name: "portal", type: Boolean, default: true },
+    ],
+
+    setup(ctx) {
+      const el = ctx.element as HTMLElement & {
+        placement: Placement;
+        portal: boolean;
+      };
+
+      let cleanups: Array<() => void> = [];
+
+      const detach = (): void => {
+        // Reverse order: stop positioning before leaving the portal
+        for (const cleanup of cleanups.reverse()) cleanup();
+        cleanups = [];
+      };
+
+      const attach = (
+        reference: HTMLElement,
+        floating: HTMLElement,
+        attachOptions: FloatingAttachOptions = {}
+      ): void => {
+        detach();
+
+        if (el.portal) {
+          // Links the portaled content back to its owner
+          floating.setAttribute(
+            "data-portal-owner",
+            ensureId(el, el.localName)
+          );
+          const restore = teleport(floating);
+          cleanups.push(() => {
+            restore();
+            floating.removeAttribute("data-portal-owner");
+          });
+        }
+
+        cleanups.push(
+          autoPosition({ reference, floating, placement: el.placement, offset })
+        );
+
+        const {
+          onDismiss: dismiss,
+          escapeKey = true,
+          outsideClick = true,
+        } = attachOptions;
+        if (dismiss && outsideClick) {
+          cleanups.push(
+            onDismiss([reference, floating], dismiss, { escapeKey, delay: 10 })
+          );
+        } else if (dismiss && escapeKey) {
+          cleanups.push(onEscapeKey(() => dismiss()));
+        }
+      };
+
+      ctx.onCleanup(detach);
+
+      return { attach, detach };
+    },
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Behaviors - Reusable pieces for ComponentSchema.behaviors
+ *
+ * Each export is a factory returning a Behavior configured for one kind of
+ * component; list it in the schema and read its API with ctx.use().
+ */
+
+export { disclosure } from "./disclosure";
+export type { DisclosureOptions, DisclosureApi } from "./disclosure";
+
+export { floating } from "./floating";
+export type {
+  FloatingOptions,
+  FloatingAttachOptions,
+  FloatingApi,
+} from "./floating";
+
+export { listbox } from "./listbox";
+export type { ListboxOptions, ListboxApi } from "./listbox";
+
+export { rovingFocus } from "./roving-focus";
+export type { RovingFocusOptions, RovingFocusApi } from "./roving-focus";
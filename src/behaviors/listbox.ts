@@ -0,0 +1,125 @@
+import { defineBehavior, type Behavior } from "../factory";
+import { ensureId } from "../aria";
+import { SLOT, KEY } from "../constants";
+
+export interface ListboxOptions {
+  /** The element holding the options (default: the menu slot) */
+  listbox?: string;
+  /** Options the highlight moves over (default: the opt slot) */
+  options?: string;
+  /** Arrow keys wrap around at either end (default true) */
+  wrap?: boolean;
+}
+
+export interface ListboxApi {
+  readonly listbox: HTMLElement | null;
+  readonly options: HTMLElement[];
+  /** Index of the highlighted option, -1 for none */
+  readonly index: number;
+  /** Highlight and focus the option at `index`; -1 clears the highlight */
+  highlight(index: number): void;
+  /**
+   * Move the highlight for ArrowDown, ArrowUp, Home and End. Returns
+   * whether `e` was one of them (its default is then prevented).
+   */
+  handleKey(e: KeyboardEvent): boolean;
+  /** Set roles and ids on the listbox and options after they change */
+  refresh(): void;
+}
+
+/**
+ * Listbox - A highlighted option moved with the arrow keys, Home and End,
+ * marked with `data-highlighted` and focused. Selecting the highlighted
+ * option is up to the component.
+ */
+export function listbox(options: ListboxOptions = {}): Behavior<ListboxApi> {
+  const {
+    listbox: listboxSelector = SLOT.menu,
+    options: optionSelector = SLOT.opt,
+    wrap = true,
+  } = options;
+
+  return defineBehavior<ListboxApi>({
+    name: "listbox",
+
+    setup(ctx) {
+      let index = -1;
+
+      // Both queries follow the listbox into the portal
+      const getListbox = (): HTMLElement | null =>
+        ctx.query<HTMLElement>(listboxSelector);
+      const getOptions = (): HTMLElement[] =>
+        ctx.queryAll<HTMLElement>(optionSelector);
+
+      const refresh = (): void => {
+        getListbox()?.setAttribute("role", "listbox");
+        for (const option of getOptions()) {
+          option.setAttribute("role", "option");
+          option.setAttribute("tabindex", "-1");
+          ensureId(option, "w-option");
+        }
+      };
+
+      const highlight = (next: number): void => {
+        const elements = getOptions();
+        index = next >= 0 && next < elements.length ? next : -1;
+        elements.forEach((option, i) => {
+          if (i === index) {
+            option.setAttribute("data-highlighted", "");
+            option.focus();
+          } else {
+            option.removeAttribute("data-highlighted");
+          }
+        });
+      };
+
+      const move = (delta: number): void => {
+        const count = getOptions().length;
+        if (count === 0) return;
+        const next = index + delta;
+        highlight(
+          wrap ? (next + count) % count : Math.max(0, Math.min(next, count - 1))
+        );
+      };
+
+      const handleKey = (e: KeyboardEvent): boolean => {
+        switch (e.key) {
+          case KEY.ArrowDown:
+            move(1);
+            break;
+          case KEY.ArrowUp:
+            // From no highlight, ArrowUp lands on the last option
+            move(index === -1 ? 0 : -1);
+            break;
+          case KEY.Home:
+            highlight(0);
+            break;
+          case KEY.End:
+            highlight(getOptions().length - 1);
+            break;
+          default:
+            return false;
+        }
+        e.preventDefault();
+        return true;
+      };
+
+      refresh();
+
+      return {
+        get listbox() {
+          return getListbox();
+        },
+        get options() {
+          return getOptions();
+        },
+        get index() {
+          return index;
+        },
+        highlight,
+        handleKey,
+        refresh,
+      };
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import { defineBehavior, type Behavior } from "../factory";
+import { createRovingTabindex, type RovingTabindex } from "../infra/focus";
+
+export interface RovingFocusOptions {
+  /** Items that take part in the roving tabindex */
+  items: string;
+  orientation?: "horizontal" | "vertical" | "both";
+  wrap?: boolean;
+  /** Typing printable characters moves to the next item starting with them */
+  typeahead?: boolean;
+}
+
+export interface RovingFocusApi {
+  readonly index: number;
+  focus(index: number): void;
+  first(): void;
+  last(): void;
+  /** Re-query the items after adding or removing some */
+  refresh(): void;
+}
+
+// Typed characters older than this start a new search
+const TYPEAHEAD_RESET = 500;
+
+/**
+ * Roving focus - One tab stop across a set of items, moved with the arrow
+ * keys, Home and End, optionally with typeahead. Items are re-queried when
+ * the component's children change.
+ */
+export function rovingFocus(
+  options: RovingFocusOptions
+): Behavior<RovingFocusApi> {
+  const {
+    items,
+    orientation = "both",
+    wrap = true,
+    typeahead = false,
+  } = options;
+
+  return defineBehavior<RovingFocusApi>({
+    name: "roving-focus",
+
+    setup(ctx) {
+      let roving: RovingTabindex | null = null;
+
+      const refresh = (): void => {
+        const index = roving?.getCurrentIndex() ?? 0;
+        roving?.destroy();
+        roving = null;
+
+        const elements = ctx.queryAll<HTMLElement>(items);
+        if (elements.length === 0) return;
+        roving = createRovingTabindex(elements, {
+          initialIndex: index,
+          orientation,
+          wrap,
+        });
+      };
+
+      refresh();
+
+      const observer = new MutationObserver(refresh);
+      observer.observe(ctx.element, { childList: true, subtree: true });
+
+      if (typeahead) {
+        let query = "";
+        let lastKey = 0;
+
+        ctx.events.on<KeyboardEvent>("keydown", items, (e) => {
+          if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+          if (e.isComposing) return;
+
+          const now = performance.now();
+          query = now - lastKey > TYPEAHEAD_RESET ? e.key : query + e.key;
+          lastKey = now;
+
+          const elements = ctx.queryAll<HTMLElement>(items);
+          const start = roving?.getCurrentIndex() ?? 0;
+          // A repeated first letter cycles; a longer query refines in place
+          const from = query.length === 1 ? start + 1 : start;
+          const search = query.toLowerCase();
+
+          for (let i = 0; i < elements.length; i++) {
+            const index = (from + i) % elements.length;
+            const text =
+              elements[index].textContent?.trim().toLowerCase() ?? "";
+            if (text.startsWith(search)) {
+              roving?.focus(index);
+              break;
+            }
+          }
+        });
+      }
+
+      ctx.onCleanup(() => {
+        observer.disconnect();
+        roving?.destroy();
+      });
+
+      return {
+        get index() {
+          return roving?.getCurrentIndex() ?? -1;
+        },
+        focus: (index: number) => roving?.focus(index),
+        first: () => roving?.first(),
+        last: () => roving?.last(),
+        refresh,
+      };
+    },
+  });
+}
@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
 import { SLOT, ARIA, getSlotName } from "../constants";
+import "./slot";
 
 defineComponent({
   tag: "w-accordion",
@@ -13,6 +14,7 @@ defineComponent({
     { name: "value", type: String, default: "" }, // Comma-separated for multiple
     { name: "multiple", type: Boolean, default: false },
     { name: "collapsible", type: Boolean, default: true },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -30,11 +32,38 @@ defineComponent({
     },
   },
 
+  transitions: {
+    panel: {
+      enterClass: "accordion-enter",
+      enterFromClass: "accordion-enter-from",
+      enterToClass: "accordion-enter-to",
+      leaveClass: "accordion-leave",
+      leaveFromClass: "accordion-leave-from",
+      leaveToClass: "accordion-leave-to",
+    },
+  },
+
+  emits: {
+    beforechange: detail<{
+      value: string;
+      expanded: string[];
+      toggled: string;
+      isExpanded: boolean;
+    }>(),
+    change: detail<{
+      value: string;
+      expanded: string[];
+      toggled: string;
+      isExpanded: boolean;
+    }>(),
+  },
+
   setup(ctx) {
     type AccordionElement = HTMLElement & {
       value: string;
       multiple: boolean;
       collapsible: boolean;
+      controlled: boolean;
     };
 
     const getItems = (): HTMLElement[] => ctx.querySlot<HTMLElement>("item");
@@ -44,6 +73,22 @@ defineComponent({
       return el.value ? el.value.split(",").filter(Boolean) : [];
     };
 
+    // Panels animate once the initial state is in place
+    let animate = false;
+
+    const setPanelVisible = (content: HTMLElement, visible: boolean): void => {
+      if (content.hidden === !visible) return;
+      content.hidden = !visible;
+      if (!animate) return;
+
+      const transition = ctx.transition("panel", content);
+      if (visible) {
+        transition?.enter();
+      } else {
+        transition?.leave();
+      }
+    };
+
     const updateAria = (): void => {
       const items = getItems();
       const expandedItems = getExpandedItems();
@@ -65,7 +110,7 @@ defineComponent({
 
           content.setAttribute("role", "region");
           content.setAttribute(ARIA.labelledby, triggerId);
-          content.hidden = !isExpanded;
+          setPanelVisible(content, isExpanded);
         }
       });
     };
@@ -92,19 +137,25 @@ defineComponent({
         }
       }
 
-      el.value = newExpandedItems.join(",");
-      updateAria();
-
-      ctx.emit("change", {
-        value: el.value,
+      const change = {
+        value: newExpandedItems.join(","),
         expanded: newExpandedItems,
         toggled: itemName,
         isExpanded: !isExpanded,
-      });
+      };
+      if (!ctx.emit("beforechange", change)) return;
+
+      if (!el.controlled) {
+        el.value = change.value;
+        updateAria();
+      }
+
+      ctx.emit("change", change);
     };
 
     // Initial setup
     updateAria();
+    animate = true;
 
     Object.assign(ctx.element, {
       handleTriggerClick(e: Event): void {
@@ -208,16 +259,7 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (mutation.attributeName === "value") {
-          updateAria();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
+    ctx.watch("value", updateAria);
   },
 });
 
@@ -1,4 +1,5 @@
 import { defineComponent } from "../factory";
+import "./slot";
 
 interface AspectRatioElement extends HTMLElement {
   ratio: string;
@@ -43,16 +44,7 @@ defineComponent({
 
     applyRatio();
 
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (mutation.attributeName === "ratio") {
-          applyRatio();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
+    ctx.watch("ratio", applyRatio);
   },
 });
 
@@ -1,6 +1,7 @@
 import { defineComponent } from "../factory";
 import { observeAttributes } from "../core/observe";
 import { SLOT, ARIA } from "../constants";
+import "./slot";
 
 interface AvatarElement extends HTMLElement {
   src: string;
@@ -45,7 +46,12 @@ defineComponent({
     { name: "src", type: String, default: "" },
     { name: "fallback", type: String, default: "" },
     { name: "size", type: String, default: "medium" },
-    { name: "shape", type: String, default: "circle" },
+    {
+      name: "shape",
+      type: String,
+      default: "circle",
+      values: ["circle", "square", "rounded"],
+    },
     { name: "decorative", type: Boolean, default: false },
     { name: "label", type: String, default: "" },
   ],
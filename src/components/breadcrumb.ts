@@ -1,6 +1,6 @@
 import { defineComponent } from "../factory";
-import { onAttributeChange } from "../core/observe";
 import { SLOT, ARIA } from "../constants";
+import "./slot";
 
 interface BreadcrumbElement extends HTMLElement {
   separator: string;
@@ -86,7 +86,7 @@ defineComponent({
       observer.disconnect();
     });
 
-    ctx.onCleanup(onAttributeChange(ctx.element, ["label"], updateAria));
+    ctx.watch("label", updateAria);
   },
 });
 
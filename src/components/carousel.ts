@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaLabel, ensureId, announcePolite } from "../aria";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface CarouselElement extends HTMLElement {
   label: string;
@@ -72,6 +73,15 @@ defineComponent({
     role: "group",
   },
 
+  emits: {
+    beforechange: detail<{
+      current: number;
+      previous: number;
+      slide: HTMLElement;
+    }>(),
+    change: detail<{ current: number; previous: number; slide: HTMLElement }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as CarouselElement;
 
@@ -200,6 +210,15 @@ defineComponent({
       }
 
       if (newIndex === el.current) return;
+      if (
+        !ctx.emit("beforechange", {
+          current: newIndex,
+          previous: el.current,
+          slide: items[newIndex],
+        })
+      ) {
+        return;
+      }
 
       // Detect whether focus is on (or inside) the slide that's about to be
       // hidden. If so, the browser will dump focus to <body> when we hide it,
@@ -365,28 +384,20 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          ["label", "current", "loop"].includes(mutation.attributeName ?? "")
-        ) {
-          updateAria();
-        }
-        if (mutation.attributeName === "autoplay") {
-          if (el.autoplay) {
-            startAutoplay();
-          } else {
-            stopAutoplay();
-          }
-        }
-        if (mutation.attributeName === "interval") {
-          stopAutoplay();
-          startAutoplay();
-        }
+    ctx.watch(["label", "current", "loop"], updateAria);
+
+    ctx.watch("autoplay", () => {
+      if (el.autoplay) {
+        startAutoplay();
+      } else {
+        stopAutoplay();
       }
     });
 
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch("interval", () => {
+      stopAutoplay();
+      startAutoplay();
+    });
 
     // Watch for child changes
     const childObserver = new MutationObserver(() => {
@@ -396,7 +407,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true, subtree: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
     });
   },
@@ -1,12 +1,22 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { createRovingTabindex } from "../infra/focus";
-import { SLOT, ARIA, getSlotName } from "../constants";
+import {
+  SLOT,
+  ARIA,
+  VALIDATION,
+  getSlotName,
+  ORIENTATION,
+} from "../constants";
+import "./slot";
 
 interface ChoiceElement extends HTMLElement {
   value: string;
   mode: string;
+  name: string;
+  required: boolean;
   disabled: boolean;
   orientation: string;
+  controlled: boolean;
   handleOptionClick(e: Event, target: HTMLElement): void;
 }
 
@@ -17,15 +27,29 @@ defineComponent({
     w-choice { display: flex; gap: 0.5rem; }
     w-choice[orientation="horizontal"] { flex-direction: row; flex-wrap: wrap; }
     w-choice[orientation="vertical"]   { flex-direction: column; }
-    w-choice[disabled] { pointer-events: none; }
+    w-choice[disabled], w-choice:disabled { pointer-events: none; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "value", type: String, default: "" },
-    { name: "mode", type: String, default: "radio" },
+    {
+      name: "mode",
+      type: String,
+      default: "radio",
+      values: ["radio", "checkbox"],
+    },
+    { name: "name", type: String, default: "" },
     { name: "required", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
-    { name: "orientation", type: String, default: "vertical" },
+    {
+      name: "orientation",
+      type: String,
+      default: "vertical",
+      values: ORIENTATION,
+    },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -42,6 +66,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforechange: detail<{ value: string }>(),
+    change: detail<{ value: string }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as ChoiceElement;
 
@@ -51,6 +80,35 @@ defineComponent({
 
     let rovingTabindex: ReturnType<typeof createRovingTabindex> | null = null;
 
+    // Selection to return to on form.reset()
+    const defaultValue = el.value;
+
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
+
+    // Radio mode submits one value; checkbox mode one entry per checked option
+    const updateForm = (): void => {
+      const values = el.value ? el.value.split(",").filter(Boolean) : [];
+
+      if (el.mode === "checkbox" && el.name) {
+        const data = new FormData();
+        values.forEach((value) => data.append(el.name, value));
+        ctx.form.setValue(data, el.value);
+      } else {
+        ctx.form.setValue(el.value || null, el.value);
+      }
+
+      if (el.required && values.length === 0) {
+        ctx.form.setValidity(
+          { valueMissing: true },
+          VALIDATION.choiceMissing,
+          getOptions()[0]
+        );
+      } else {
+        ctx.form.setValidity();
+      }
+    };
+
     const updateAria = (): void => {
       const options = getOptions();
       const values = el.value ? el.value.split(",").filter(Boolean) : [];
@@ -61,7 +119,7 @@ defineComponent({
       );
       ctx.element.setAttribute(ARIA.orientation, el.orientation);
 
-      if (el.disabled) {
+      if (isDisabled()) {
         ctx.element.setAttribute(ARIA.disabled, "true");
       } else {
         ctx.element.removeAttribute(ARIA.disabled);
@@ -77,7 +135,7 @@ defineComponent({
         opt.setAttribute("role", el.mode === "radio" ? "radio" : "checkbox");
         opt.setAttribute(ARIA.checked, String(isSelected));
 
-        if (el.disabled) {
+        if (isDisabled()) {
           opt.setAttribute(ARIA.disabled, "true");
         } else {
           opt.removeAttribute(ARIA.disabled);
@@ -102,11 +160,25 @@ defineComponent({
     };
 
     updateAria();
+    updateForm();
     setupRovingTabindex();
 
+    ctx.form.onReset(() => {
+      el.value = defaultValue;
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onRestore((state) => {
+      if (typeof state !== "string") return;
+      el.value = state;
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onDisabled(updateAria);
+
     Object.assign(ctx.element, {
       handleOptionClick(_e: Event, target: HTMLElement): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const optValue = getSlotName(target);
         if (!optValue) return;
@@ -126,14 +198,19 @@ defineComponent({
           newValue = optValue;
         }
 
-        el.value = newValue;
-        updateAria();
+        if (!ctx.emit("beforechange", { value: newValue })) return;
+
+        if (!el.controlled) {
+          el.value = newValue;
+          updateAria();
+          updateForm();
+        }
 
         ctx.emit("change", { value: newValue });
       },
 
       handleKeyDown(e: KeyboardEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         if (e.key === " " || e.key === "Enter") {
           const target = e.target as HTMLElement;
@@ -152,6 +229,7 @@ defineComponent({
       setValue(value: string): void {
         el.value = value;
         updateAria();
+        updateForm();
       },
 
       getSelectedOptions(): HTMLElement[] {
@@ -162,23 +240,9 @@ defineComponent({
       },
     });
 
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "value" ||
-          mutation.attributeName === "mode" ||
-          mutation.attributeName === "disabled"
-        ) {
-          updateAria();
-        }
-        if (mutation.attributeName === "orientation") {
-          setupRovingTabindex();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
+    ctx.watch(["value", "mode", "disabled"], updateAria);
+    ctx.watch(["value", "mode", "name", "required"], updateForm);
+    ctx.watch("orientation", setupRovingTabindex);
   },
 });
 
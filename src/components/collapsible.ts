@@ -1,11 +1,12 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
-import { onAttributeChange } from "../core/observe";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface CollapsibleElement extends HTMLElement {
   open: boolean;
   disabled: boolean;
+  controlled: boolean;
   handleClick(): void;
   toggle(force?: boolean): void;
 }
@@ -20,6 +21,7 @@ defineComponent({
   props: [
     { name: "open", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -50,6 +52,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforetoggle: detail<{ open: boolean }>(),
+    toggle: detail<{ open: boolean }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as CollapsibleElement;
     const trigger = ctx.children.trigger as HTMLElement | null;
@@ -79,16 +86,12 @@ defineComponent({
       content.style.display = el.open ? "" : "none";
     };
 
-    updateAria();
+    // Re-runs whenever `open` or `disabled` changes
+    ctx.effect(updateAria);
 
     Object.assign(ctx.element, {
       handleClick(): void {
-        if (el.disabled) return;
-
-        el.open = !el.open;
-        updateAria();
-
-        ctx.emit("toggle", { open: el.open });
+        el.toggle();
       },
 
       handleKeyDown(e: KeyboardEvent): void {
@@ -103,10 +106,14 @@ defineComponent({
       toggle(force?: boolean): void {
         if (el.disabled) return;
 
-        el.open = force ?? !el.open;
-        updateAria();
+        const open = force ?? !el.open;
+        if (!ctx.emit("beforetoggle", { open })) return;
+
+        if (!el.controlled) {
+          el.open = open;
+        }
 
-        ctx.emit("toggle", { open: el.open });
+        ctx.emit("toggle", { open });
       },
 
       expand(): void {
@@ -117,10 +124,6 @@ defineComponent({
         el.toggle(false);
       },
     });
-
-    ctx.onCleanup(
-      onAttributeChange(ctx.element, ["open", "disabled"], updateAria)
-    );
   },
 });
 
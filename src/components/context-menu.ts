@@ -1,13 +1,20 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
 import { onDismiss } from "../infra/click-outside";
-import { createRovingTabindex } from "../infra/focus";
 import { teleport } from "../infra/portal";
+import { rovingFocus } from "../behaviors";
 import { SLOT, ARIA, KEY, getSlotName } from "../constants";
+import "./slot";
+
+const ITEMS = `${SLOT.body} ${SLOT.item}`;
+
+const navigation = rovingFocus({ items: ITEMS, orientation: "vertical" });
 
 defineComponent({
   tag: "w-context-menu",
 
+  behaviors: [navigation],
+
   styles: `
     w-context-menu { display: contents; }
   `,
@@ -51,6 +58,14 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforeopen: detail<{ x: number; y: number }>(),
+    beforeclose: detail(),
+    open: detail<{ x: number; y: number }>(),
+    close: detail(),
+    select: detail<{ item: string | null; element: HTMLElement }>(),
+  },
+
   setup(ctx) {
     type ContextMenuElement = HTMLElement & {
       open: boolean;
@@ -61,38 +76,15 @@ defineComponent({
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    let contentRef: HTMLElement | null = null;
+    const getContent = (): HTMLElement | null =>
+      ctx.query<HTMLElement>(SLOT.body);
 
-    const getContent = (): HTMLElement | null => {
-      const localContent = ctx.query<HTMLElement>(SLOT.body);
-      if (localContent) {
-        contentRef = localContent;
-        return localContent;
-      }
-      if (contentRef && document.body.contains(contentRef)) {
-        return contentRef;
-      }
-      const portaledContent = document.querySelector<HTMLElement>(
-        `${SLOT.body}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledContent) {
-        contentRef = portaledContent;
-        return portaledContent;
-      }
-      return null;
-    };
+    const getItems = (): HTMLElement[] => ctx.queryAll<HTMLElement>(ITEMS);
 
-    const getItems = (): HTMLElement[] => {
-      const content = getContent();
-      if (!content) return [];
-      return Array.from(content.querySelectorAll<HTMLElement>(SLOT.item));
-    };
+    const roving = ctx.use(navigation);
 
     let portalCleanup: (() => void) | null = null;
-    let contentClickHandler: ((e: Event) => void) | null = null;
-    let contentKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
     let dismissCleanup: (() => void) | null = null;
-    let rovingTabindex: ReturnType<typeof createRovingTabindex> | null = null;
 
     // Store mouse position for positioning
     let mouseX = 0;
@@ -114,9 +106,9 @@ defineComponent({
         ensureId(content, "w-context-menu");
       }
 
-      items.forEach((item, index) => {
+      // Tabindex comes from the roving focus behavior
+      items.forEach((item) => {
         item.setAttribute("role", "menuitem");
-        item.setAttribute("tabindex", index === 0 ? "0" : "-1");
       });
     };
 
@@ -125,6 +117,7 @@ defineComponent({
       const el = ctx.element as unknown as ContextMenuElement;
 
       if (!content || el.open) return;
+      if (!ctx.emit("beforeopen", { x, y })) return;
 
       el.open = true;
       updateAria();
@@ -135,21 +128,6 @@ defineComponent({
         content.setAttribute("data-portal-owner", ctx.element.id);
 
         portalCleanup = teleport(content);
-
-        // Attach event listeners directly to portaled content
-        contentClickHandler = (e: Event) => {
-          const target = (e.target as HTMLElement).closest(
-            SLOT.item
-          ) as HTMLElement | null;
-          if (target) {
-            (ctx.element as any).handleItemClick(e, target);
-          }
-        };
-        contentKeydownHandler = (e: KeyboardEvent) => {
-          (ctx.element as any).handleContentKeyDown(e);
-        };
-        content.addEventListener("click", contentClickHandler);
-        content.addEventListener("keydown", contentKeydownHandler);
       }
 
       // Position at mouse cursor
@@ -171,19 +149,8 @@ defineComponent({
         }
       });
 
-      // Get items after potential teleport
-      const items = getItems();
-
-      // Setup roving tabindex
-      rovingTabindex = createRovingTabindex(items, {
-        orientation: "vertical",
-        wrap: true,
-      });
-
       // Focus first item
-      if (items.length > 0) {
-        items[0].focus();
-      }
+      roving.first();
 
       // Setup dismiss
       dismissCleanup = onDismiss([content], () => closeMenu(), {
@@ -202,24 +169,12 @@ defineComponent({
       const el = ctx.element as unknown as ContextMenuElement;
 
       if (!el.open) return;
+      if (!ctx.emit("beforeclose")) return;
 
       // Cleanup
       dismissCleanup?.();
       dismissCleanup = null;
 
-      rovingTabindex?.destroy();
-      rovingTabindex = null;
-
-      // Remove direct event listeners from portaled content
-      if (content && contentClickHandler) {
-        content.removeEventListener("click", contentClickHandler);
-        contentClickHandler = null;
-      }
-      if (content && contentKeydownHandler) {
-        content.removeEventListener("keydown", contentKeydownHandler);
-        contentKeydownHandler = null;
-      }
-
       // Transition
       ctx.transitions.content?.leave();
 
@@ -281,36 +236,20 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (mutation.attributeName === "open") {
-          const el = ctx.element as unknown as ContextMenuElement;
-          const content = getContent();
-          if (content) {
-            if (el.open && content.hidden) {
-              openMenu(mouseX, mouseY);
-            } else if (!el.open && !content.hidden) {
-              closeMenu();
-            }
-          }
+    ctx.watch("open", () => {
+      const el = ctx.element as unknown as ContextMenuElement;
+      const content = getContent();
+      if (content) {
+        if (el.open && content.hidden) {
+          openMenu(mouseX, mouseY);
+        } else if (!el.open && !content.hidden) {
+          closeMenu();
         }
       }
     });
 
-    observer.observe(ctx.element, { attributes: true });
-
     ctx.onCleanup(() => {
-      observer.disconnect();
       dismissCleanup?.();
-      rovingTabindex?.destroy();
-
-      const content = getContent();
-      if (content && contentClickHandler) {
-        content.removeEventListener("click", contentClickHandler);
-      }
-      if (content && contentKeydownHandler) {
-        content.removeEventListener("keydown", contentKeydownHandler);
-      }
       portalCleanup?.();
     });
   },
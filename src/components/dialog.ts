@@ -1,10 +1,11 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
 import { createFocusTrap } from "../infra/focus";
 import { onDismiss } from "../infra/click-outside";
 import { teleport } from "../infra/portal";
 import { observeAttributes } from "../core/observe";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface DialogElement extends HTMLElement {
   open: boolean;
@@ -14,6 +15,7 @@ interface DialogElement extends HTMLElement {
   closeOnOutsideClick: boolean;
   returnFocus: boolean;
   label: string;
+  controlled: boolean;
   handleTriggerClick(): void;
 }
 
@@ -42,6 +44,7 @@ defineComponent({
     { name: "closeOnOutsideClick", type: Boolean, default: true },
     { name: "returnFocus", type: Boolean, default: true },
     { name: "label", type: String, default: "" },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -77,6 +80,13 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforeopen: detail(),
+    beforeclose: detail(),
+    open: detail(),
+    close: detail(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as DialogElement;
 
@@ -115,10 +125,10 @@ defineComponent({
       }
     };
 
-    const openDialog = (): void => {
-      const content = getContent();
-
-      if (!content || el.open) return;
+    // Opens the content; also used when the host sets `open` directly.
+    const showDialog = (): void => {
+      const content = teleportedContent || getContent();
+      if (!content) return;
 
       // Store reference before teleportation so we can access it in closeDialog
       teleportedContent = content;
@@ -127,11 +137,11 @@ defineComponent({
         previousFocus = document.activeElement as HTMLElement;
       }
 
-      if (el.modal) {
+      // Still teleported when reopened during the leave animation
+      if (el.modal && !portalCleanup) {
         portalCleanup = teleport(content);
       }
 
-      el.open = true;
       updateAria();
 
       // When persistent, disable both escape and outside click
@@ -164,15 +174,12 @@ defineComponent({
       }
 
       ctx.transitions.content?.enter();
-
-      ctx.emit("open");
     };
 
-    const closeDialog = (): void => {
+    const hideDialog = (): void => {
       // Use stored reference since content may be teleported to portal
       const content = teleportedContent || getContent();
-
-      if (!content || !el.open) return;
+      if (!content) return;
 
       focusTrap?.deactivate();
       focusTrap = null;
@@ -183,20 +190,45 @@ defineComponent({
       closeButtonCleanup?.();
       closeButtonCleanup = null;
 
-      ctx.transitions.content?.leave().then(() => {
+      updateAria();
+
+      // Back from the portal once the content has animated out
+      const restore = (): void => {
         portalCleanup?.();
         portalCleanup = null;
         teleportedContent = null;
-      });
-
-      el.open = false;
-      updateAria();
+      };
+      if (ctx.transitions.content) {
+        ctx.transitions.content.leave(restore);
+      } else {
+        restore();
+      }
 
       if (el.returnFocus && previousFocus) {
         previousFocus.focus();
         previousFocus = null;
       }
+    };
 
+    // In controlled mode the events only request the change; the host
+    // applies it by setting `open`.
+    const openDialog = (): void => {
+      if (el.open || !(teleportedContent || getContent())) return;
+      if (!ctx.emit("beforeopen")) return;
+      if (!el.controlled) {
+        el.open = true;
+        showDialog();
+      }
+      ctx.emit("open");
+    };
+
+    const closeDialog = (): void => {
+      if (!el.open) return;
+      if (!ctx.emit("beforeclose")) return;
+      if (!el.controlled) {
+        el.open = false;
+        hideDialog();
+      }
       ctx.emit("close");
     };
 
@@ -245,12 +277,12 @@ defineComponent({
             updateAria();
             return;
           }
-          const content = getContent();
+          const content = teleportedContent || getContent();
           if (content) {
             if (el.open && content.hidden) {
-              openDialog();
+              showDialog();
             } else if (!el.open && !content.hidden) {
-              closeDialog();
+              hideDialog();
             }
           }
         },
@@ -7,7 +7,8 @@ import {
   announcePolite,
 } from "../aria";
 import { createRovingTabindex, getFocusableElements } from "../infra/focus";
-import { SLOT, ARIA, KEY } from "../constants";
+import { SLOT, ARIA } from "../constants";
+import "./slot";
 
 interface FeedElement extends HTMLElement {
   label: string;
@@ -32,13 +33,6 @@ defineComponent({
     items: { selector: SLOT.item, multiple: true },
   },
 
-  events: {
-    keydown: {
-      selector: SLOT.item,
-      handler: "handleKeyDown",
-    },
-  },
-
   aria: {
     role: "feed",
   },
@@ -116,52 +110,31 @@ defineComponent({
       return null;
     };
 
-    Object.assign(ctx.element, {
-      handleKeyDown(e: KeyboardEvent): void {
-        const items = getItems();
-        const currentIndex = rovingTabindex?.getCurrentIndex() ?? 0;
-
-        switch (e.key) {
-          case KEY.PageDown:
-            // Move to next article
-            e.preventDefault();
-            if (currentIndex < items.length - 1) {
-              rovingTabindex?.focus(currentIndex + 1);
-            }
-            break;
-
-          case KEY.PageUp:
-            // Move to previous article
-            e.preventDefault();
-            if (currentIndex > 0) {
-              rovingTabindex?.focus(currentIndex - 1);
-            }
-            break;
-
-          case KEY.End:
-            if (e.ctrlKey) {
-              // Move focus to first focusable element after the feed
-              e.preventDefault();
-              const nextFocusable = findAdjacentFocusable("after");
-              if (nextFocusable) {
-                nextFocusable.focus();
-              }
-            }
-            break;
-
-          case KEY.Home:
-            if (e.ctrlKey) {
-              // Move focus to first focusable element before the feed
-              e.preventDefault();
-              const prevFocusable = findAdjacentFocusable("before");
-              if (prevFocusable) {
-                prevFocusable.focus();
-              }
-            }
-            break;
-        }
+    const moveBy = (offset: number): void => {
+      const items = getItems();
+      const index = (rovingTabindex?.getCurrentIndex() ?? 0) + offset;
+      if (index >= 0 && index < items.length) {
+        rovingTabindex?.focus(index);
+      }
+    };
+
+    const leaveFeed = (direction: "before" | "after"): void => {
+      findAdjacentFocusable(direction)?.focus();
+    };
+
+    ctx.events.keys(
+      {
+        // Move between articles
+        PageDown: () => moveBy(1),
+        PageUp: () => moveBy(-1),
+        // Move focus to the first focusable element after/before the feed
+        "Ctrl+End": () => leaveFeed("after"),
+        "Ctrl+Home": () => leaveFeed("before"),
       },
+      { selector: SLOT.item }
+    );
 
+    Object.assign(ctx.element, {
       // Public API for adding items
       addItem(element: HTMLElement, position: "start" | "end" = "start"): void {
         element.setAttribute("slot", "item");
@@ -204,17 +177,7 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          ["label", "busy", "loading"].includes(mutation.attributeName ?? "")
-        ) {
-          updateAria();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["label", "busy", "loading"], updateAria);
 
     // Watch for child changes
     const childObserver = new MutationObserver((mutations) => {
@@ -234,7 +197,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
       rovingTabindex?.destroy();
     });
@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaLabel, ensureId } from "../aria";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface GridElement extends HTMLElement {
   label: string;
@@ -29,7 +30,12 @@ defineComponent({
 
   props: [
     { name: "label", type: String, default: "Grid" },
-    { name: "selectionMode", type: String, default: "cell" },
+    {
+      name: "selectionMode",
+      type: String,
+      default: "cell",
+      values: ["none", "cell", "row"],
+    },
     { name: "multiSelect", type: Boolean, default: false },
     { name: "height", type: String, default: null },
   ],
@@ -52,6 +58,17 @@ defineComponent({
     role: "grid",
   },
 
+  emits: {
+    select: detail<{
+      cell: HTMLElement;
+      row: HTMLElement | null;
+      rowIndex: number;
+      cellIndex: number;
+    }>(),
+    selectAll: detail(),
+    selectionCleared: detail(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as GridElement;
 
@@ -330,19 +347,8 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        const name = mutation.attributeName ?? "";
-        if (["label", "selectionMode", "multiSelect"].includes(name)) {
-          updateAria();
-        }
-        if (name === "height") {
-          applyHeight();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["label", "selectionMode", "multiSelect"], updateAria);
+    ctx.watch("height", applyHeight);
 
     // Watch for child changes
     const childObserver = new MutationObserver(() => {
@@ -352,7 +358,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true, subtree: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
     });
   },
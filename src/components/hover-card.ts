@@ -1,9 +1,10 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId, setAriaExpanded } from "../aria";
 import { autoPosition, type Placement } from "../infra/position";
 import { teleport } from "../infra/portal";
 import { onDismiss } from "../infra/click-outside";
-import { SLOT, ARIA, KEY } from "../constants";
+import { SLOT, ARIA, KEY, PLACEMENT } from "../constants";
+import "./slot";
 
 defineComponent({
   tag: "w-hover-card",
@@ -14,7 +15,12 @@ defineComponent({
 
   props: [
     { name: "open", type: Boolean, default: false },
-    { name: "placement", type: String, default: "bottom" },
+    {
+      name: "placement",
+      type: String,
+      default: "bottom",
+      values: PLACEMENT,
+    },
     { name: "openDelay", type: Number, default: 500 },
     { name: "closeDelay", type: Number, default: 300 },
     { name: "portal", type: Boolean, default: true },
@@ -59,6 +65,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    show: detail(),
+    hide: detail(),
+  },
+
   setup(ctx) {
     type HoverCardElement = HTMLElement & {
       open: boolean;
@@ -71,26 +82,8 @@ defineComponent({
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    let contentRef: HTMLElement | null = null;
-
-    const getContent = (): HTMLElement | null => {
-      const localContent = ctx.query<HTMLElement>(SLOT.body);
-      if (localContent) {
-        contentRef = localContent;
-        return localContent;
-      }
-      if (contentRef && document.body.contains(contentRef)) {
-        return contentRef;
-      }
-      const portaledContent = document.querySelector<HTMLElement>(
-        `${SLOT.body}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledContent) {
-        contentRef = portaledContent;
-        return portaledContent;
-      }
-      return null;
-    };
+    const getContent = (): HTMLElement | null =>
+      ctx.query<HTMLElement>(SLOT.body);
 
     let portalCleanup: (() => void) | null = null;
     let contentMouseEnterHandler: (() => void) | null = null;
@@ -1,6 +1,7 @@
 import { defineComponent } from "../factory";
 import { ensureId } from "../aria";
 import { forwardClasses } from "../core/forward-class";
+import "./slot";
 
 interface LabelElement extends HTMLElement {
   for: string;
@@ -190,23 +191,9 @@ defineComponent({
       ? forwardClasses(el, nativeLabel)
       : () => {};
 
-    // Observe attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "for" ||
-          mutation.attributeName === "disabled" ||
-          mutation.attributeName === "required"
-        ) {
-          associateLabel();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["for", "disabled", "required"], associateLabel);
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       stopForwarding();
       if (customClickHandler && nativeLabel) {
         nativeLabel.removeEventListener("click", customClickHandler);
@@ -1,14 +1,35 @@
 import { defineComponent } from "../factory";
 import { ARIA } from "../constants";
 import { forwardClasses } from "../core/forward-class";
+import { Router, ROUTE_CHANGE_EVENT } from "../app";
+import "./slot";
 
 interface LinkElement extends HTMLElement {
   href: string;
   external: boolean;
   disabled: boolean;
+  /** Prefetch the target route's lazy views on hover or focus */
+  prefetch: boolean;
   variant: "default" | "subtle" | "underline";
 }
 
+// URLs with a scheme, or protocol-relative ones, leave the app
+const ABSOLUTE_URL = /^([a-z][a-z\d+.-]*:|\/\/)/i;
+
+// The route `href` points to, or null when the Router doesn't handle it:
+// absolute URLs, in-page anchors, or any link while the router isn't
+// running or is in native mode
+const toRoute = (href: string): string | null => {
+  const { hash, native } = Router.settings;
+  if (!href || !Router.started || native || ABSOLUTE_URL.test(href)) {
+    return null;
+  }
+  if (href.startsWith("#")) {
+    return hash && href.startsWith("#/") ? href.slice(1) : null;
+  }
+  return href.startsWith("/") ? href : "/" + href;
+};
+
 defineComponent({
   tag: "w-link",
 
@@ -28,7 +49,13 @@ defineComponent({
     { name: "href", type: String, default: "" },
     { name: "external", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
-    { name: "variant", type: String, default: "default" },
+    { name: "prefetch", type: Boolean, default: false },
+    {
+      name: "variant",
+      type: String,
+      default: "default",
+      values: ["default", "subtle", "underline"],
+    },
   ],
 
   setup(ctx) {
@@ -36,6 +63,9 @@ defineComponent({
 
     let anchorElement: HTMLAnchorElement | null = null;
 
+    const getRoute = (): string | null =>
+      el.external ? null : toRoute(el.href);
+
     const createAnchor = (): void => {
       // Check if anchor already exists or was provided via slot
       const existingAnchor = el.querySelector("a");
@@ -59,8 +89,11 @@ defineComponent({
     const updateAnchor = (): void => {
       if (!anchorElement) return;
 
-      // Set href
-      if (el.href) {
+      // Set href: routes get the URL the router will show (base or #)
+      const route = getRoute();
+      if (route) {
+        anchorElement.href = Router.href(route);
+      } else if (el.href) {
         anchorElement.href = el.href;
       } else {
         anchorElement.removeAttribute("href");
@@ -90,6 +123,45 @@ defineComponent({
         anchorElement.tabIndex = 0;
         anchorElement.onclick = null;
       }
+
+      updateCurrent();
+    };
+
+    // aria-current="page" while the link's route is the current one
+    const updateCurrent = (): void => {
+      if (!anchorElement || !Router.started) return;
+
+      const route = getRoute();
+      if (route && Router.match(route.split("?")[0]) !== null) {
+        anchorElement.setAttribute(ARIA.current, "page");
+      } else {
+        anchorElement.removeAttribute(ARIA.current);
+      }
+    };
+
+    // Route internal links through the Router. Modified clicks, other
+    // targets and downloads keep the browser's behavior (new tab, etc.).
+    const handleClick = (e: MouseEvent): void => {
+      const route = el.disabled ? null : getRoute();
+      if (!route || e.defaultPrevented || e.button !== 0) return;
+      if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+      const anchor = (e.target as Element).closest("a");
+      if (!anchor || anchor !== anchorElement) return;
+      if (
+        (anchor.target && anchor.target !== "_self") ||
+        anchor.hasAttribute("download")
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      Router.navigate(route);
+    };
+
+    const handlePrefetch = (): void => {
+      const route = el.prefetch ? getRoute() : null;
+      if (route) Router.prefetch(route);
     };
 
     // Initial setup
@@ -101,25 +173,22 @@ defineComponent({
       ? forwardClasses(ctx.element as HTMLElement, anchorElement)
       : () => {};
 
-    // Observe attribute changes (variant is CSS-driven; href/external/disabled
-    // touch ARIA and listeners so they still need JS handling).
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "href" ||
-          mutation.attributeName === "external" ||
-          mutation.attributeName === "disabled"
-        ) {
-          updateAnchor();
-        }
-      }
-    });
+    // variant is CSS-driven; href/external/disabled touch ARIA and listeners
+    // so they still need JS handling.
+    ctx.watch(["href", "external", "disabled"], updateAnchor);
 
-    observer.observe(ctx.element, { attributes: true });
+    // The router may start after the link, and its settings decide the href
+    window.addEventListener(ROUTE_CHANGE_EVENT, updateAnchor);
+    ctx.element.addEventListener("click", handleClick);
+    ctx.element.addEventListener("pointerenter", handlePrefetch);
+    ctx.element.addEventListener("focusin", handlePrefetch);
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       stopForwarding();
+      window.removeEventListener(ROUTE_CHANGE_EVENT, updateAnchor);
+      ctx.element.removeEventListener("click", handleClick);
+      ctx.element.removeEventListener("pointerenter", handlePrefetch);
+      ctx.element.removeEventListener("focusin", handlePrefetch);
     });
   },
 });
@@ -1,14 +1,23 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
 import { autoPosition } from "../infra/position";
-import { onDismiss } from "../infra/click-outside";
 import { createRovingTabindex } from "../infra/focus";
-import { teleport } from "../infra/portal";
+import { disclosure, floating, rovingFocus } from "../behaviors";
 import { SLOT, ARIA, KEY, getSlotName } from "../constants";
+import "./slot";
+
+// Items of the top level; submenus get their own roving tabindex
+const TOP_ITEMS = `${SLOT.body} > ${SLOT.item}`;
+
+const panel = disclosure();
+const popup = floating({ placement: "bottom-start" });
+const navigation = rovingFocus({ items: TOP_ITEMS, orientation: "vertical" });
 
 defineComponent({
   tag: "w-menu",
 
+  behaviors: [panel, popup, navigation],
+
   styles: `
     w-menu { display: contents; }
     [role="menu"] > w-slot[sub] > [role="menu"] {
@@ -18,11 +27,8 @@ defineComponent({
   `,
 
   props: [
-    { name: "open", type: Boolean, default: false },
-    { name: "placement", type: String, default: "bottom-start" },
     { name: "persistent", type: Boolean, default: false },
     { name: "closeOnSelect", type: Boolean, default: true },
-    { name: "portal", type: Boolean, default: true }, // Default to portal mode for z-index safety
   ],
 
   children: {
@@ -32,16 +38,10 @@ defineComponent({
   },
 
   events: {
-    click: [
-      {
-        selector: SLOT.trigger,
-        handler: "handleTriggerClick",
-      },
-      {
-        selector: SLOT.item,
-        handler: "handleItemClick",
-      },
-    ],
+    click: {
+      selector: SLOT.item,
+      handler: "handleItemClick",
+    },
     keydown: [
       {
         selector: SLOT.trigger,
@@ -66,6 +66,14 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforeopen: detail(),
+    beforeclose: detail(),
+    open: detail(),
+    close: detail(),
+    select: detail<{ item: string | null; element: HTMLElement }>(),
+  },
+
   setup(ctx) {
     type MenuElement = HTMLElement & {
       open: boolean;
@@ -75,47 +83,20 @@ defineComponent({
       portal: boolean;
     };
 
+    const el = ctx.element as unknown as MenuElement;
+    const { open, close, toggle, onToggle } = ctx.use(panel);
+    const position = ctx.use(popup);
+    const roving = ctx.use(navigation);
+
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    // Store reference to content element (needed when portaled)
-    let contentRef: HTMLElement | null = null;
+    // Found while teleported too (ctx.query follows portaled content)
+    const getContent = (): HTMLElement | null =>
+      ctx.query<HTMLElement>(SLOT.body);
 
-    const getContent = (): HTMLElement | null => {
-      // First try local query (when not portaled)
-      const localContent = ctx.query<HTMLElement>(SLOT.body);
-      if (localContent) {
-        contentRef = localContent;
-        return localContent;
-      }
-      // If not found locally, check portal using stored reference or data attribute
-      if (contentRef && document.body.contains(contentRef)) {
-        return contentRef;
-      }
-      // Last resort: find by data-portal-owner attribute
-      const portaledContent = document.querySelector<HTMLElement>(
-        `${SLOT.body}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledContent) {
-        contentRef = portaledContent;
-        return portaledContent;
-      }
-      return null;
-    };
-
-    // Portal cleanup function
-    let portalCleanup: (() => void) | null = null;
-    // Direct event listeners for portaled content
-    let contentClickHandler: ((e: Event) => void) | null = null;
-    let contentKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
     // Get only direct menu items (not items inside submenus)
-    const getItems = (): HTMLElement[] => {
-      const content = getContent();
-      if (!content) return [];
-      return Array.from(
-        content.querySelectorAll<HTMLElement>(`:scope > ${SLOT.item}`)
-      );
-    };
+    const getItems = (): HTMLElement[] => ctx.queryAll<HTMLElement>(TOP_ITEMS);
 
     // Check if an item has a submenu
     const hasSubmenu = (item: HTMLElement): boolean => {
@@ -134,10 +115,6 @@ defineComponent({
       );
     };
 
-    let positionCleanup: (() => void) | null = null;
-    let dismissCleanup: (() => void) | null = null;
-    let rovingTabindex: ReturnType<typeof createRovingTabindex> | null = null;
-
     // Track open submenus and their cleanups
     const openSubmenus = new Map<
       HTMLElement,
@@ -167,35 +144,20 @@ defineComponent({
         : "right";
     };
 
+    // Trigger expansion, content visibility and top-level tabindex come
+    // from the disclosure and roving focus behaviors
     const updateAria = (): void => {
-      const trigger = getTrigger();
-      const content = getContent();
-      const items = getItems();
-      const el = ctx.element as unknown as MenuElement;
-
-      if (trigger) {
-        trigger.setAttribute(ARIA.haspopup, "menu");
-        trigger.setAttribute(ARIA.expanded, String(el.open));
-        if (content) {
-          trigger.setAttribute(ARIA.controls, ensureId(content, "w-menu"));
-        }
-      }
-
-      if (content) {
-        content.setAttribute("role", "menu");
-        content.hidden = !el.open;
-      }
+      getTrigger()?.setAttribute(ARIA.haspopup, "menu");
+      getContent()?.setAttribute("role", "menu");
 
       // Setup ARIA for all items recursively
       const setupItemsAria = (
         itemList: HTMLElement[],
         isFirstLevel: boolean
       ): void => {
-        itemList.forEach((item, index) => {
+        itemList.forEach((item) => {
           item.setAttribute("role", "menuitem");
-          if (isFirstLevel) {
-            item.setAttribute("tabindex", index === 0 ? "0" : "-1");
-          } else {
+          if (!isFirstLevel) {
             item.setAttribute("tabindex", "-1");
           }
 
@@ -214,7 +176,7 @@ defineComponent({
         });
       };
 
-      setupItemsAria(items, true);
+      setupItemsAria(getItems(), true);
     };
 
     // Close all sibling submenus at a given level
@@ -352,83 +314,30 @@ defineComponent({
       });
     };
 
-    const openMenu = (): void => {
-      const trigger = getTrigger();
-      const content = getContent();
-      const el = ctx.element as unknown as MenuElement;
+    // Whether the content is shown (portaled, positioned, dismissable)
+    let shown = false;
 
-      if (!trigger || !content || el.open) return;
+    // Runs however `open` changed: trigger, keyboard, methods or the host
+    onToggle((isOpen) => {
+      if (isOpen === shown) return;
 
-      el.open = true;
-      updateAria();
-
-      // Teleport content to portal if enabled
-      if (el.portal) {
-        // Add tracking attribute to link portaled content back to owner
-        ensureId(ctx.element, "w-menu");
-        content.setAttribute("data-portal-owner", ctx.element.id);
-
-        portalCleanup = teleport(content);
-
-        // Attach event listeners directly to portaled content
-        // (since event delegation from parent won't work)
-        contentClickHandler = (e: Event) => {
-          const target = (e.target as HTMLElement).closest(
-            SLOT.item
-          ) as HTMLElement | null;
-          if (target) {
-            (ctx.element as any).handleItemClick(e, target);
-          }
-        };
-        contentKeydownHandler = (e: KeyboardEvent) => {
-          (ctx.element as any).handleContentKeyDown(e);
-        };
-        content.addEventListener("click", contentClickHandler);
-        content.addEventListener("keydown", contentKeydownHandler);
-      }
-
-      // Position content (works whether portaled or not since we use fixed positioning)
-      positionCleanup = autoPosition({
-        reference: trigger,
-        floating: content,
-        placement: el.placement as "bottom-start",
-        offset: 4,
-      });
-
-      // Get items after potential teleport
-      const items = getItems();
-
-      // Setup roving tabindex
-      rovingTabindex = createRovingTabindex(items, {
-        orientation: "vertical",
-        wrap: true,
-      });
-
-      // Focus first item
-      if (items.length > 0) {
-        items[0].focus();
-      }
+      const trigger = getTrigger();
+      const content = getContent();
+      if (isOpen && (!trigger || !content)) return;
+      shown = isOpen;
 
-      // Setup dismiss (skip if persistent)
-      if (!el.persistent) {
-        dismissCleanup = onDismiss([trigger, content], () => closeMenu(), {
-          escapeKey: true,
-          delay: 10,
+      if (isOpen) {
+        updateAria();
+        position.attach(trigger!, content!, {
+          onDismiss: el.persistent ? undefined : close,
         });
-      }
-
-      // Transition
-      ctx.transitions.content?.enter();
-
-      ctx.emit("open");
-    };
 
-    const closeMenu = (): void => {
-      const trigger = getTrigger();
-      const content = getContent();
-      const el = ctx.element as unknown as MenuElement;
+        // Focus first item
+        roving.first();
 
-      if (!el.open) return;
+        ctx.transitions.content?.enter();
+        return;
+      }
 
       // Close all submenus first
       closeAllSubmenus();
@@ -436,62 +345,22 @@ defineComponent({
       // Reset submenu direction for next open
       submenuDirection = null;
 
-      // Cleanup
-      positionCleanup?.();
-      positionCleanup = null;
-
-      dismissCleanup?.();
-      dismissCleanup = null;
-
-      rovingTabindex?.destroy();
-      rovingTabindex = null;
-
-      // Remove direct event listeners from portaled content
-      if (content && contentClickHandler) {
-        content.removeEventListener("click", contentClickHandler);
-        contentClickHandler = null;
+      // Leave the portal once the content has animated out
+      if (ctx.transitions.content) {
+        ctx.transitions.content.leave(() => position.detach());
+      } else {
+        position.detach();
       }
-      if (content && contentKeydownHandler) {
-        content.removeEventListener("keydown", contentKeydownHandler);
-        contentKeydownHandler = null;
-      }
-
-      // Transition
-      ctx.transitions.content?.leave();
-
-      // Restore content from portal (must be after transition to avoid visual jump)
-      if (portalCleanup) {
-        portalCleanup();
-        portalCleanup = null;
-        // Remove tracking attribute
-        content?.removeAttribute("data-portal-owner");
-      }
-
-      el.open = false;
-      updateAria();
 
       // Return focus to trigger
       trigger?.focus();
-
-      ctx.emit("close");
-    };
+    });
 
     // Initial state
     updateAria();
 
     Object.assign(ctx.element, {
-      handleTriggerClick(): void {
-        const el = ctx.element as unknown as MenuElement;
-        if (el.open) {
-          closeMenu();
-        } else {
-          openMenu();
-        }
-      },
-
       handleTriggerKeyDown(e: KeyboardEvent): void {
-        const el = ctx.element as unknown as MenuElement;
-
         if (
           e.key === KEY.Enter ||
           e.key === KEY.Space ||
@@ -499,19 +368,16 @@ defineComponent({
         ) {
           e.preventDefault();
           if (!el.open) {
-            openMenu();
+            open();
           }
         }
 
         if (e.key === KEY.ArrowUp) {
           e.preventDefault();
           if (!el.open) {
-            openMenu();
+            open();
             // Focus last item
-            const items = getItems();
-            if (items.length > 0) {
-              rovingTabindex?.last();
-            }
+            if (el.open) roving.last();
           }
         }
       },
@@ -522,7 +388,7 @@ defineComponent({
 
         if (e.key === KEY.Tab) {
           e.preventDefault();
-          closeMenu();
+          close();
           return;
         }
 
@@ -558,20 +424,18 @@ defineComponent({
 
         // Escape closes everything (all submenus + main menu).
         if (e.key === KEY.Escape) {
-          const el = ctx.element as unknown as MenuElement;
           if (el.persistent) {
             e.preventDefault();
             return;
           }
           e.preventDefault();
           e.stopPropagation();
-          closeMenu();
+          close();
           return;
         }
       },
 
       handleItemClick(_e: Event, target: HTMLElement): void {
-        const el = ctx.element as unknown as MenuElement;
         const itemName = getSlotName(target);
 
         // If item has submenu, toggle it instead of selecting
@@ -588,64 +452,28 @@ defineComponent({
         ctx.emit("select", { item: itemName, element: target });
 
         if (el.closeOnSelect) {
-          closeMenu();
+          close();
         }
       },
 
       show(): void {
-        openMenu();
+        open();
       },
 
       hide(): void {
-        closeMenu();
+        close();
       },
 
       toggle(force?: boolean): void {
-        const shouldOpen =
-          force ?? !(ctx.element as unknown as MenuElement).open;
-        if (shouldOpen) {
-          openMenu();
+        if (force === undefined) {
+          toggle();
+        } else if (force) {
+          open();
         } else {
-          closeMenu();
+          close();
         }
       },
     });
-
-    // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (mutation.attributeName === "open") {
-          const el = ctx.element as unknown as MenuElement;
-          const content = getContent();
-          if (content) {
-            if (el.open && content.hidden) {
-              openMenu();
-            } else if (!el.open && !content.hidden) {
-              closeMenu();
-            }
-          }
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-
-    ctx.onCleanup(() => {
-      observer.disconnect();
-      positionCleanup?.();
-      dismissCleanup?.();
-      rovingTabindex?.destroy();
-
-      // Clean up portal and direct event listeners
-      const content = getContent();
-      if (content && contentClickHandler) {
-        content.removeEventListener("click", contentClickHandler);
-      }
-      if (content && contentKeydownHandler) {
-        content.removeEventListener("keydown", contentKeydownHandler);
-      }
-      portalCleanup?.();
-    });
   },
 });
 
@@ -1,8 +1,9 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail, resolveTag } from "../factory";
 import { setAriaLabel } from "../aria";
 import { createRovingTabindex } from "../infra/focus";
-import { SLOT, KEY } from "../constants";
+import { SLOT, KEY, ORIENTATION } from "../constants";
 import { Router, ROUTE_CHANGE_EVENT } from "../app";
+import "./slot";
 
 interface NavigationElement extends HTMLElement {
   label: string;
@@ -50,7 +51,12 @@ defineComponent({
 
   props: [
     { name: "label", type: String, default: "Navigation" },
-    { name: "orientation", type: String, default: "horizontal" },
+    {
+      name: "orientation",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
     { name: "value", type: String, default: "" },
   ],
 
@@ -71,6 +77,10 @@ defineComponent({
     role: "navigation",
   },
 
+  emits: {
+    change: detail<{ value: string }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as NavigationElement;
 
@@ -121,7 +131,10 @@ defineComponent({
           }
         }
         // Handle w-link elements (they have href attribute and contain an <a>)
-        else if (item.tagName === "W-LINK" && item.hasAttribute("href")) {
+        else if (
+          item.localName === resolveTag("w-link") &&
+          item.hasAttribute("href")
+        ) {
           const href = item.getAttribute("href") || "";
           if (href && !href.startsWith("#") && !href.startsWith("http")) {
             const hashHref = "#" + (href.startsWith("/") ? href : "/" + href);
@@ -281,7 +294,8 @@ defineComponent({
 
         // Prevent default link behavior - let Router handle navigation
         // Check for anchor elements: direct <a>, w-link, or nested <a>
-        const isLink = item.tagName === "A" || item.tagName === "W-LINK";
+        const isLink =
+          item.tagName === "A" || item.localName === resolveTag("w-link");
         const anchor = isLink ? item : target.closest("a");
         if (anchor || item.querySelector("a")) {
           e.preventDefault();
@@ -295,23 +309,9 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "label" ||
-          mutation.attributeName === "orientation"
-        ) {
-          updateAria();
-          if (mutation.attributeName === "orientation") {
-            setupRovingTabindex();
-          }
-        } else if (mutation.attributeName === "value") {
-          updateAriaCurrent();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["label", "orientation"], updateAria);
+    ctx.watch("orientation", setupRovingTabindex);
+    ctx.watch("value", updateAriaCurrent);
 
     // Watch for child changes
     const childObserver = new MutationObserver(() => {
@@ -323,7 +323,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true, subtree: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
       rovingTabindex?.destroy();
       ctx.element.removeEventListener("_sync", handleSync);
@@ -1,10 +1,7 @@
-import { defineComponent } from "../factory";
-import { ensureId } from "../aria";
-import { onDismiss } from "../infra/click-outside";
-import { teleport } from "../infra/portal";
-import { autoPosition, type Placement } from "../infra/position";
-import { onAttributeChange } from "../core/observe";
+import { defineComponent, detail } from "../factory";
+import { disclosure, floating } from "../behaviors";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface PopoverElement extends HTMLElement {
   open: boolean;
@@ -15,25 +12,26 @@ interface PopoverElement extends HTMLElement {
   returnFocus: boolean;
   portal: boolean;
   label: string;
-  handleTriggerClick(e: Event): void;
   handleKeyDown(e: KeyboardEvent): void;
 }
 
+const panel = disclosure();
+const popup = floating({ offset: 8 });
+
 defineComponent({
   tag: "w-popover",
 
+  behaviors: [panel, popup],
+
   styles: `
     w-popover { display: contents; }
   `,
 
   props: [
-    { name: "open", type: Boolean, default: false },
-    { name: "placement", type: String, default: "bottom" },
     { name: "persistent", type: Boolean, default: false },
     { name: "closeOnOutsideClick", type: Boolean, default: true },
     { name: "closeOnEscape", type: Boolean, default: true },
     { name: "returnFocus", type: Boolean, default: true },
-    { name: "portal", type: Boolean, default: true }, // Default to portal mode for z-index safety
     { name: "label", type: String, default: "" },
   ],
 
@@ -43,197 +41,120 @@ defineComponent({
   },
 
   events: {
-    click: {
-      selector: SLOT.trigger,
-      handler: "handleTriggerClick",
-    },
     keydown: {
       handler: "handleKeyDown",
     },
   },
 
+  transitions: {
+    content: {
+      target: SLOT.body,
+      enterClass: "popover-enter",
+      enterFromClass: "popover-enter-from",
+      enterToClass: "popover-enter-to",
+      leaveClass: "popover-leave",
+      leaveFromClass: "popover-leave-from",
+      leaveToClass: "popover-leave-to",
+    },
+  },
+
+  emits: {
+    beforeopen: detail(),
+    beforeclose: detail(),
+    open: detail(),
+    close: detail(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as PopoverElement;
+    const { open, close, onToggle } = ctx.use(panel);
+    const position = ctx.use(popup);
 
-    let dismissCleanup: (() => void) | null = null;
     let previousFocus: HTMLElement | null = null;
-    let portalCleanup: (() => void) | null = null;
-    let positionCleanup: (() => void) | null = null;
 
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    let contentRef: HTMLElement | null = null;
-
-    const getContent = (): HTMLElement | null => {
-      const localContent = ctx.query<HTMLElement>(SLOT.body);
-      if (localContent) {
-        contentRef = localContent;
-        return localContent;
-      }
-      if (contentRef && document.body.contains(contentRef)) {
-        return contentRef;
-      }
-      const portaledContent = document.querySelector<HTMLElement>(
-        `${SLOT.body}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledContent) {
-        contentRef = portaledContent;
-        return portaledContent;
-      }
-      return null;
-    };
+    const getContent = (): HTMLElement | null =>
+      ctx.query<HTMLElement>(SLOT.body);
 
+    // Expansion and visibility come from the disclosure behavior
     const updateAria = (): void => {
-      const trigger = getTrigger();
-      const content = getContent();
-
-      if (trigger) {
-        trigger.setAttribute(ARIA.haspopup, "dialog");
-        trigger.setAttribute(ARIA.expanded, String(el.open));
-
-        if (content) {
-          trigger.setAttribute(
-            ARIA.controls,
-            ensureId(content, "w-popover-content")
-          );
-        }
-      }
+      getTrigger()?.setAttribute(ARIA.haspopup, "dialog");
 
+      const content = getContent();
       if (content) {
         content.setAttribute("role", "dialog");
         if (el.label) {
           content.setAttribute(ARIA.label, el.label);
         }
-        content.hidden = !el.open;
       }
     };
 
-    const openPopover = (): void => {
-      if (el.open) return;
+    // Whether the content is shown (portaled, positioned, dismissable)
+    let shown = false;
 
-      if (el.returnFocus) {
-        previousFocus = document.activeElement as HTMLElement;
-      }
-
-      el.open = true;
-      updateAria();
+    // Runs however `open` changed: trigger, keyboard or the host
+    onToggle((isOpen) => {
+      if (isOpen === shown) return;
+      shown = isOpen;
 
+      const trigger = getTrigger();
       const content = getContent();
 
-      // Teleport content to portal if enabled
-      const trigger = getTrigger();
-      if (el.portal && content) {
-        // Add tracking attribute to link portaled content back to owner
-        ensureId(ctx.element, "w-popover");
-        content.setAttribute("data-portal-owner", ctx.element.id);
-
-        portalCleanup = teleport(content);
-
-        // Position content relative to trigger
-        if (trigger) {
-          positionCleanup = autoPosition({
-            reference: trigger,
-            floating: content,
-            placement: el.placement as Placement,
-            offset: 8,
-          });
+      if (!isOpen) {
+        // Leave the portal once the content has animated out
+        if (ctx.transitions.content) {
+          ctx.transitions.content.leave(() => position.detach());
+        } else {
+          position.detach();
         }
-      }
 
-      // Setup dismiss handlers (skip if persistent)
-      const allowEscape = el.persistent ? false : el.closeOnEscape;
-      const allowOutsideClick = el.persistent ? false : el.closeOnOutsideClick;
-
-      if (content && (allowOutsideClick || allowEscape)) {
-        dismissCleanup = onDismiss(
-          trigger ? [trigger, content] : [content],
-          () => closePopover(),
-          {
-            escapeKey: allowEscape,
-            delay: 10,
-          }
-        );
-      }
-
-      // Focus first focusable element in content
-      const content2 = getContent();
-      if (content2) {
-        const focusable = content2.querySelector<HTMLElement>(
-          'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-        );
-        if (focusable) {
-          focusable.focus();
+        if (el.returnFocus && previousFocus) {
+          previousFocus.focus();
+          previousFocus = null;
         }
+        return;
       }
 
-      ctx.emit("open");
-    };
-
-    const closePopover = (): void => {
-      if (!el.open) return;
-
-      const content = getContent();
-
-      el.open = false;
-      updateAria();
-
-      dismissCleanup?.();
-      dismissCleanup = null;
-
-      // Cleanup position
-      positionCleanup?.();
-      positionCleanup = null;
-
-      // Restore content from portal
-      if (portalCleanup) {
-        portalCleanup();
-        portalCleanup = null;
-        // Remove tracking attribute
-        content?.removeAttribute("data-portal-owner");
+      if (el.returnFocus) {
+        previousFocus = document.activeElement as HTMLElement;
       }
 
-      if (el.returnFocus && previousFocus) {
-        previousFocus.focus();
-        previousFocus = null;
+      // Dismiss handlers are skipped when persistent
+      if (trigger && content) {
+        position.attach(trigger, content, {
+          onDismiss: el.persistent ? undefined : close,
+          escapeKey: el.closeOnEscape,
+          outsideClick: el.closeOnOutsideClick,
+        });
       }
 
-      ctx.emit("close");
-    };
+      // Focus first focusable element in content
+      const focusable = content?.querySelector<HTMLElement>(
+        'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+      );
+      focusable?.focus();
+
+      ctx.transitions.content?.enter();
+    });
 
     updateAria();
 
     Object.assign(ctx.element, {
-      handleTriggerClick(e: Event): void {
-        e.preventDefault();
-        if (el.open) {
-          closePopover();
-        } else {
-          openPopover();
-        }
-      },
-
       handleKeyDown(e: KeyboardEvent): void {
         const trigger = getTrigger();
 
         if (document.activeElement === trigger && !el.open) {
           if (e.key === KEY.Enter || e.key === KEY.Space) {
             e.preventDefault();
-            openPopover();
+            open();
           }
         }
       },
     });
 
-    ctx.onCleanup(
-      onAttributeChange(ctx.element, ["open", "label"], updateAria)
-    );
-
-    ctx.onCleanup(() => {
-      dismissCleanup?.();
-      positionCleanup?.();
-      portalCleanup?.();
-    });
+    ctx.watch("label", updateAria);
   },
 });
 
@@ -1,6 +1,6 @@
 import { defineComponent } from "../factory";
-import { onAttributeChange } from "../core/observe";
 import { SLOT, ARIA } from "../constants";
+import "./slot";
 
 interface ProgressbarElement extends HTMLElement {
   value: number;
@@ -77,13 +77,7 @@ defineComponent({
       updateVisual();
     };
 
-    ctx.onCleanup(
-      onAttributeChange(
-        ctx.element,
-        ["value", "min", "max", "indeterminate", "label"],
-        update
-      )
-    );
+    ctx.watch(["value", "min", "max", "indeterminate", "label"], update);
   },
 });
 
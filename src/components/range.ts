@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaOrientation, setAriaLabel } from "../aria";
-import { SLOT, ARIA } from "../constants";
+import { SLOT, ARIA, VALIDATION, ORIENTATION } from "../constants";
+import "./slot";
 
 interface RangeElement extends HTMLElement {
   min: number;
@@ -11,6 +12,7 @@ interface RangeElement extends HTMLElement {
   disabled: boolean;
   label: string;
   name: string;
+  controlled: boolean;
 }
 
 defineComponent({
@@ -61,18 +63,26 @@ defineComponent({
       transform: translate(-50%, 50%);
     }
 
-    w-range[disabled] { pointer-events: none; }
+    w-range[disabled], w-range:disabled { pointer-events: none; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "min", type: Number, default: 0 },
     { name: "max", type: Number, default: 100 },
     { name: "value", type: Number, default: 0 },
     { name: "step", type: Number, default: 1 },
-    { name: "orientation", type: String, default: "horizontal" },
+    {
+      name: "orientation",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
     { name: "disabled", type: Boolean, default: false },
     { name: "label", type: String, default: "" },
     { name: "name", type: String, default: "" },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -99,6 +109,12 @@ defineComponent({
     role: "none",
   },
 
+  emits: {
+    beforechange: detail<{ value: number; oldValue: number }>(),
+    change: detail<{ value: number; oldValue: number }>(),
+    input: detail<{ value: number }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as RangeElement;
 
@@ -106,28 +122,17 @@ defineComponent({
     let startX = 0;
     let startY = 0;
     let startValue = 0;
-    let hiddenInput: HTMLInputElement | null = null;
+
+    // Value to return to on form.reset()
+    const defaultValue = el.value;
 
     const getThumb = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.knob);
     const getTrack = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.rail);
 
-    // Create hidden input for form compatibility
-    const setupHiddenInput = (): void => {
-      if (el.name) {
-        if (!hiddenInput) {
-          hiddenInput = document.createElement("input");
-          hiddenInput.type = "hidden";
-          ctx.element.appendChild(hiddenInput);
-        }
-        hiddenInput.name = el.name;
-        hiddenInput.value = String(el.value);
-      } else if (hiddenInput) {
-        hiddenInput.remove();
-        hiddenInput = null;
-      }
-    };
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
 
     // Handle click on component to focus thumb (for label association)
     const handleClick = (e: MouseEvent): void => {
@@ -140,9 +145,24 @@ defineComponent({
 
     ctx.element.addEventListener("click", handleClick);
 
-    const updateHiddenInput = (): void => {
-      if (hiddenInput) {
-        hiddenInput.value = String(el.value);
+    // Submit the value through ElementInternals and report min/max validity
+    const updateForm = (): void => {
+      ctx.form.setValue(String(el.value));
+
+      if (el.value < el.min) {
+        ctx.form.setValidity(
+          { rangeUnderflow: true },
+          VALIDATION.rangeUnderflow(el.min),
+          getThumb()
+        );
+      } else if (el.value > el.max) {
+        ctx.form.setValidity(
+          { rangeOverflow: true },
+          VALIDATION.rangeOverflow(el.max),
+          getThumb()
+        );
+      } else {
+        ctx.form.setValidity();
       }
     };
 
@@ -183,7 +203,7 @@ defineComponent({
 
       setAriaOrientation(thumb, el.orientation);
 
-      if (el.disabled) {
+      if (isDisabled()) {
         thumb.setAttribute(ARIA.disabled, "true");
         thumb.setAttribute("tabindex", "-1");
       } else {
@@ -205,11 +225,24 @@ defineComponent({
       const clampedValue = clamp(roundToStep(newValue));
 
       if (clampedValue === oldValue) return;
+      if (
+        emitEvent &&
+        !ctx.emit("beforechange", { value: clampedValue, oldValue })
+      ) {
+        return;
+      }
+
+      // Controlled: report the proposed value and wait for the host to set it
+      if (el.controlled && emitEvent) {
+        ctx.emit("change", { value: clampedValue, oldValue });
+        ctx.emit("input", { value: clampedValue });
+        return;
+      }
 
       el.value = clampedValue;
       updateAria();
       updateVisuals();
-      updateHiddenInput();
+      updateForm();
 
       if (emitEvent) {
         ctx.emit("change", { value: el.value, oldValue });
@@ -228,11 +261,17 @@ defineComponent({
     // Initial setup
     updateAria();
     updateVisuals();
-    setupHiddenInput();
+    updateForm();
+
+    ctx.form.onReset(() => setValue(defaultValue, false));
+    ctx.form.onRestore((state) => {
+      if (typeof state === "string") setValue(Number(state), false);
+    });
+    ctx.form.onDisabled(updateAria);
 
     Object.assign(ctx.element, {
       handleKeyDown(e: KeyboardEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const isHorizontal = el.orientation === "horizontal";
         const pageMultiplier = 10;
@@ -278,7 +317,7 @@ defineComponent({
       },
 
       handlePointerDown(e: PointerEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const thumb = getThumb();
         if (!thumb) return;
@@ -327,7 +366,7 @@ defineComponent({
       },
 
       handleWheel(e: WheelEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         // Prevent page scroll
         e.preventDefault();
@@ -361,35 +400,16 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        const attr = mutation.attributeName ?? "";
-        if (
-          [
-            "min",
-            "max",
-            "value",
-            "step",
-            "orientation",
-            "disabled",
-            "label",
-          ].includes(attr)
-        ) {
-          updateAria();
-          updateVisuals();
-          if (attr === "value") {
-            updateHiddenInput();
-          }
-        }
-        if (attr === "name") {
-          setupHiddenInput();
-        }
+    ctx.watch(
+      ["min", "max", "value", "step", "orientation", "disabled", "label"],
+      () => {
+        updateAria();
+        updateVisuals();
+        updateForm();
       }
-    });
+    );
 
-    observer.observe(ctx.element, { attributes: true });
     ctx.onCleanup(() => {
-      observer.disconnect();
       ctx.element.removeEventListener("click", handleClick);
     });
   },
@@ -1,4 +1,5 @@
 import { defineComponent } from "../factory";
+import "./slot";
 
 interface ScrollbarElement extends HTMLElement {
   orientation: "horizontal" | "vertical" | "both";
@@ -14,7 +15,14 @@ defineComponent({
     w-scrollbar[orientation="both"]       { overflow: auto; }
   `,
 
-  props: [{ name: "orientation", type: String, default: "vertical" }],
+  props: [
+    {
+      name: "orientation",
+      type: String,
+      default: "vertical",
+      values: ["horizontal", "vertical", "both"],
+    },
+  ],
 
   aria: {
     role: "none",
@@ -1,10 +1,7 @@
-import { defineComponent } from "../factory";
-import { ensureId } from "../aria";
-import { onDismiss } from "../infra/click-outside";
-import { teleport } from "../infra/portal";
-import { autoPosition, type Placement } from "../infra/position";
-import { onAttributeChange } from "../core/observe";
-import { SLOT, ARIA, KEY } from "../constants";
+import { defineComponent, detail } from "../factory";
+import { disclosure, floating, listbox } from "../behaviors";
+import { SLOT, ARIA, KEY, VALIDATION } from "../constants";
+import "./slot";
 
 interface SelectElement extends HTMLElement {
   value: string;
@@ -14,26 +11,36 @@ interface SelectElement extends HTMLElement {
   placeholder: string;
   portal: boolean;
   label: string;
-  handleTriggerClick(e: Event): void;
+  name: string;
+  required: boolean;
+  controlled: boolean;
   handleOptionClick(e: Event, target: HTMLElement): void;
   handleKeyDown(e: KeyboardEvent): void;
 }
 
+const panel = disclosure({ content: SLOT.menu });
+const popup = floating({ placement: "bottom-start" });
+const choices = listbox();
+
 defineComponent({
   tag: "w-select",
 
+  behaviors: [panel, popup, choices],
+
   styles: `
     w-select { display: contents; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "value", type: String, default: "" },
-    { name: "open", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
     { name: "persistent", type: Boolean, default: false },
     { name: "placeholder", type: String, default: "Select..." },
-    { name: "portal", type: Boolean, default: true }, // Default to portal mode for z-index safety
     { name: "label", type: String, default: "" },
+    { name: "name", type: String, default: "" },
+    { name: "required", type: Boolean, default: false },
   ],
 
   children: {
@@ -43,76 +50,59 @@ defineComponent({
   },
 
   events: {
-    click: [
-      {
-        selector: SLOT.trigger,
-        handler: "handleTriggerClick",
-      },
-      {
-        selector: SLOT.opt,
-        handler: "handleOptionClick",
-      },
-    ],
+    click: {
+      selector: SLOT.opt,
+      handler: "handleOptionClick",
+    },
     keydown: {
       handler: "handleKeyDown",
     },
   },
 
+  emits: {
+    beforeopen: detail(),
+    beforeclose: detail(),
+    beforechange: detail<{ value: string }>(),
+    open: detail(),
+    close: detail(),
+    change: detail<{ value: string }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as SelectElement;
-
-    let dismissCleanup: (() => void) | null = null;
-    let highlightedIndex = -1;
-    let portalCleanup: (() => void) | null = null;
-    let positionCleanup: (() => void) | null = null;
-    let listboxClickHandler: ((e: Event) => void) | null = null;
-    let listboxKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
+    const { open, close, onToggle } = ctx.use(panel);
+    const position = ctx.use(popup);
+    const list = ctx.use(choices);
 
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    // Store reference to listbox element (needed when portaled)
-    let listboxRef: HTMLElement | null = null;
+    // Selection to return to on form.reset()
+    const defaultValue = el.value;
 
-    const getListbox = (): HTMLElement | null => {
-      // First try local query (when not portaled)
-      const localListbox = ctx.query<HTMLElement>(SLOT.menu);
-      if (localListbox) {
-        listboxRef = localListbox;
-        return localListbox;
-      }
-      // If not found locally, check portal using stored reference or data attribute
-      if (listboxRef && document.body.contains(listboxRef)) {
-        return listboxRef;
-      }
-      // Last resort: find by data-portal-owner attribute
-      const portaledListbox = document.querySelector<HTMLElement>(
-        `${SLOT.menu}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledListbox) {
-        listboxRef = portaledListbox;
-        return portaledListbox;
-      }
-      return null;
-    };
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
 
-    const getOptions = (): NodeListOf<HTMLElement> => {
-      const listbox = getListbox();
-      if (listbox) {
-        return listbox.querySelectorAll<HTMLElement>(SLOT.opt);
+    const updateForm = (): void => {
+      ctx.form.setValue(el.value || null, el.value);
+
+      if (el.required && !el.value) {
+        ctx.form.setValidity(
+          { valueMissing: true },
+          VALIDATION.selectMissing,
+          getTrigger()
+        );
+      } else {
+        ctx.form.setValidity();
       }
-      return el.querySelectorAll<HTMLElement>(SLOT.opt);
     };
 
     const updateAria = (): void => {
       const trigger = getTrigger();
-      const listbox = getListbox();
-      const options = getOptions();
 
       if (trigger) {
         trigger.setAttribute("role", "combobox");
         trigger.setAttribute(ARIA.haspopup, "listbox");
-        trigger.setAttribute(ARIA.expanded, String(el.open));
         trigger.setAttribute("tabindex", "0");
 
         // Apply accessible label to trigger
@@ -125,210 +115,91 @@ defineComponent({
           );
         }
 
-        if (listbox) {
-          trigger.setAttribute(
-            ARIA.controls,
-            ensureId(listbox, "w-select-listbox")
-          );
-        }
-
-        if (el.disabled) {
+        // Also keeps the disclosure from opening
+        if (isDisabled()) {
           trigger.setAttribute(ARIA.disabled, "true");
         } else {
           trigger.removeAttribute(ARIA.disabled);
         }
       }
 
-      if (listbox) {
-        listbox.setAttribute("role", "listbox");
-        listbox.hidden = !el.open;
-      }
-
-      options.forEach((option, index) => {
+      list.refresh();
+      for (const option of list.options) {
         const optionValue = option.getAttribute("value") || "";
-        option.setAttribute("role", "option");
         option.setAttribute(ARIA.selected, String(optionValue === el.value));
-        option.setAttribute("tabindex", "-1");
-        option.id = option.id || `w-select-option-${index}`;
-      });
-    };
-
-    const openSelect = (): void => {
-      if (el.disabled || el.open) return;
-
-      el.open = true;
-      highlightedIndex = -1;
-
-      // Find currently selected option to highlight
-      const options = Array.from(getOptions());
-      const selectedIndex = options.findIndex(
-        (opt) => opt.getAttribute("value") === el.value
-      );
-      if (selectedIndex >= 0) {
-        highlightedIndex = selectedIndex;
       }
+    };
 
-      updateAria();
-
-      const listbox = getListbox();
-
-      // Teleport listbox to portal if enabled
-      if (el.portal && listbox) {
-        // Add tracking attribute to link portaled listbox back to owner
-        ensureId(ctx.element, "w-select");
-        listbox.setAttribute("data-portal-owner", ctx.element.id);
+    // Whether the listbox is currently shown (portaled, positioned, dismissable)
+    let shown = false;
 
-        portalCleanup = teleport(listbox);
+    // Runs however `open` changed: trigger, keyboard or the host
+    onToggle((isOpen) => {
+      if (isOpen === shown) return;
+      shown = isOpen;
 
-        // Attach direct event listeners to portaled content (event delegation doesn't work across portal)
-        listboxClickHandler = (e: Event) => {
-          const target = (e.target as HTMLElement).closest(
-            SLOT.opt
-          ) as HTMLElement | null;
-          if (target) {
-            (ctx.element as any).handleOptionClick(e, target);
-          }
-        };
-        listboxKeydownHandler = (e: KeyboardEvent) => {
-          (ctx.element as any).handleKeyDown(e);
-        };
-        listbox.addEventListener("click", listboxClickHandler);
-        listbox.addEventListener("keydown", listboxKeydownHandler);
-
-        // Position listbox relative to trigger
+      if (isOpen) {
         const trigger = getTrigger();
-        if (trigger) {
-          positionCleanup = autoPosition({
-            reference: trigger,
-            floating: listbox,
-            placement: "bottom-start" as Placement,
-            offset: 4,
+        const listboxElement = list.listbox;
+        if (trigger && listboxElement) {
+          position.attach(trigger, listboxElement, {
+            onDismiss: el.persistent ? undefined : close,
           });
         }
-      }
-
-      updateHighlight();
 
-      // Setup dismiss on outside click or escape (skip if persistent)
-      const trigger = getTrigger();
-      const listbox2 = getListbox();
-      if (listbox2 && !el.persistent) {
-        dismissCleanup = onDismiss(
-          trigger ? [trigger, listbox2] : [listbox2],
-          () => closeSelect(),
-          { escapeKey: true, delay: 10 }
+        // Start from the selected option
+        list.highlight(
+          list.options.findIndex(
+            (option) => option.getAttribute("value") === el.value
+          )
         );
-      }
-
-      ctx.emit("open");
-    };
-
-    const closeSelect = (): void => {
-      if (!el.open) return;
-
-      const listbox = getListbox();
+      } else {
+        list.highlight(-1);
+        position.detach();
 
-      el.open = false;
-      highlightedIndex = -1;
-      updateAria();
-
-      dismissCleanup?.();
-      dismissCleanup = null;
-
-      // Remove direct event listeners from portaled content
-      if (listbox && listboxClickHandler) {
-        listbox.removeEventListener("click", listboxClickHandler);
-        listboxClickHandler = null;
-      }
-      if (listbox && listboxKeydownHandler) {
-        listbox.removeEventListener(
-          "keydown",
-          listboxKeydownHandler as EventListener
-        );
-        listboxKeydownHandler = null;
-      }
-
-      // Cleanup position
-      positionCleanup?.();
-      positionCleanup = null;
-
-      // Restore listbox from portal
-      if (portalCleanup) {
-        portalCleanup();
-        portalCleanup = null;
-        // Remove tracking attribute
-        listbox?.removeAttribute("data-portal-owner");
+        // Return focus to trigger
+        getTrigger()?.focus();
       }
+    });
 
-      // Return focus to trigger
-      getTrigger()?.focus();
-
-      ctx.emit("close");
-    };
-
+    // In controlled mode the events only request the change; the host
+    // applies it by setting `value`.
     const selectOption = (option: HTMLElement): void => {
       const value = option.getAttribute("value") || "";
-      el.value = value;
-      el.setAttribute("value", value);
+      if (!ctx.emit("beforechange", { value })) return;
 
-      updateAria();
-      closeSelect();
-
-      ctx.emit("change", { value });
-    };
+      if (!el.controlled) {
+        el.value = value;
+        el.setAttribute("value", value);
 
-    const updateHighlight = (): void => {
-      const options = getOptions();
-      options.forEach((option, index) => {
-        if (index === highlightedIndex) {
-          option.setAttribute("data-highlighted", "");
-          option.focus();
-        } else {
-          option.removeAttribute("data-highlighted");
-        }
-      });
-    };
-
-    const highlightNext = (): void => {
-      const options = getOptions();
-      if (options.length === 0) return;
-
-      highlightedIndex = (highlightedIndex + 1) % options.length;
-      updateHighlight();
-    };
-
-    const highlightPrev = (): void => {
-      const options = getOptions();
-      if (options.length === 0) return;
-
-      highlightedIndex =
-        (highlightedIndex - 1 + options.length) % options.length;
-      updateHighlight();
-    };
-
-    const highlightFirst = (): void => {
-      highlightedIndex = 0;
-      updateHighlight();
-    };
+        updateAria();
+        updateForm();
+      }
+      close();
 
-    const highlightLast = (): void => {
-      const options = getOptions();
-      highlightedIndex = options.length - 1;
-      updateHighlight();
+      ctx.emit("change", { value });
     };
 
     updateAria();
+    updateForm();
 
-    Object.assign(ctx.element, {
-      handleTriggerClick(e: Event): void {
-        e.preventDefault();
-        if (el.open) {
-          closeSelect();
-        } else {
-          openSelect();
-        }
-      },
+    ctx.form.onReset(() => {
+      el.value = defaultValue;
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onRestore((state) => {
+      if (typeof state !== "string") return;
+      el.value = state;
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onDisabled((disabled) => {
+      if (disabled) close();
+      updateAria();
+    });
 
+    Object.assign(ctx.element, {
       handleOptionClick(e: Event, target: HTMLElement): void {
         e.preventDefault();
         selectOption(target);
@@ -346,83 +217,46 @@ defineComponent({
             case KEY.ArrowDown:
             case KEY.ArrowUp:
               e.preventDefault();
-              openSelect();
-              if (e.key === KEY.ArrowDown || e.key === KEY.ArrowUp) {
-                highlightFirst();
+              open();
+              if (
+                el.open &&
+                (e.key === KEY.ArrowDown || e.key === KEY.ArrowUp)
+              ) {
+                list.highlight(0);
               }
               break;
           }
         } else if (el.open) {
-          // Listbox is open
-          switch (e.key) {
-            case KEY.ArrowDown:
-              e.preventDefault();
-              highlightNext();
-              break;
-
-            case KEY.ArrowUp:
-              e.preventDefault();
-              highlightPrev();
-              break;
-
-            case KEY.Home:
-              e.preventDefault();
-              highlightFirst();
-              break;
-
-            case KEY.End:
-              e.preventDefault();
-              highlightLast();
-              break;
+          // Listbox is open: arrows, Home and End move the highlight
+          if (list.handleKey(e)) return;
 
+          switch (e.key) {
             case KEY.Enter:
-            case KEY.Space:
+            case KEY.Space: {
               e.preventDefault();
-              const options = getOptions();
-              if (highlightedIndex >= 0 && highlightedIndex < options.length) {
-                selectOption(options[highlightedIndex]);
-              }
+              const option = list.options[list.index];
+              if (option) selectOption(option);
               break;
+            }
 
             case KEY.Escape:
               e.preventDefault();
               if (!el.persistent) {
-                closeSelect();
+                close();
               }
               break;
 
             case KEY.Tab:
-              closeSelect();
+              close();
               break;
           }
         }
       },
     });
 
-    ctx.onCleanup(
-      onAttributeChange(
-        ctx.element,
-        ["value", "disabled", "open", "label"],
-        updateAria
-      )
-    );
-
-    ctx.onCleanup(() => {
-      dismissCleanup?.();
-
-      // Clean up portal and direct event listeners
-      const listbox = getListbox();
-      if (listbox && listboxClickHandler) {
-        listbox.removeEventListener("click", listboxClickHandler);
-      }
-      if (listbox && listboxKeydownHandler) {
-        listbox.removeEventListener(
-          "keydown",
-          listboxKeydownHandler as EventListener
-        );
-      }
-      positionCleanup?.();
-      portalCleanup?.();
+    ctx.watch(["value", "disabled", "label", "required"], () => {
+      updateAria();
+      updateForm();
     });
   },
 });
@@ -1,5 +1,6 @@
 import { defineComponent } from "../factory";
-import { ARIA } from "../constants";
+import { ARIA, ORIENTATION } from "../constants";
+import "./slot";
 
 interface SeparatorElement extends HTMLElement {
   orientation: "horizontal" | "vertical";
@@ -16,7 +17,12 @@ defineComponent({
   `,
 
   props: [
-    { name: "orientation", type: String, default: "horizontal" },
+    {
+      name: "orientation",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
     { name: "decorative", type: Boolean, default: false },
   ],
 
@@ -38,22 +44,7 @@ defineComponent({
     updateAria();
 
     // Observe attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "orientation" ||
-          mutation.attributeName === "decorative"
-        ) {
-          updateAria();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-
-    ctx.onCleanup(() => {
-      observer.disconnect();
-    });
+    ctx.watch(["orientation", "decorative"], updateAria);
   },
 });
 
@@ -56,11 +56,22 @@ defineComponent({
     { name: "value", type: Boolean, default: false },
     { name: "up", type: Boolean, default: false },
     { name: "down", type: Boolean, default: false },
+    // View slots (2)
+    { name: "loading", type: Boolean, default: false },
+    { name: "error", type: Boolean, default: false },
     // Other slots (4)
     { name: "menu", type: Boolean, default: false },
     { name: "img", type: Boolean, default: false },
     { name: "alt", type: Boolean, default: false },
     { name: "sub", type: Boolean, default: false },
+    // Grid/treegrid layout hints, read by CSS only (not observed)
+    {
+      name: "size",
+      type: Number,
+      reflect: false,
+      values: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    },
+    { name: "sticky", type: Boolean, default: false, reflect: false },
   ],
 
   // No setup needed: layout is owned by the @layer waria stylesheet
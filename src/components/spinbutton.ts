@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaLabel } from "../aria";
-import { SLOT, ARIA } from "../constants";
+import { SLOT, ARIA, VALIDATION } from "../constants";
+import "./slot";
 
 interface SpinbuttonElement extends HTMLElement {
   min: number;
@@ -23,9 +24,11 @@ defineComponent({
       align-items: center;
       gap: 0.25rem;
     }
-    w-spinbutton[disabled] { pointer-events: none; }
+    w-spinbutton[disabled], w-spinbutton:disabled { pointer-events: none; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "min", type: Number, default: 0 },
     { name: "max", type: Number, default: 100 },
@@ -72,10 +75,17 @@ defineComponent({
     role: "group",
   },
 
+  emits: {
+    beforechange: detail<{ value: number; oldValue: number }>(),
+    change: detail<{ value: number; oldValue: number }>(),
+    input: detail<{ value: number }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as SpinbuttonElement;
 
-    let hiddenInput: HTMLInputElement | null = null;
+    // Value to return to on form.reset()
+    const defaultValue = el.value;
 
     const getInput = (): HTMLInputElement | null =>
       ctx.query<HTMLInputElement>(SLOT.input);
@@ -86,25 +96,28 @@ defineComponent({
     const getDecrement = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.down);
 
-    // Create hidden input for form compatibility
-    const setupHiddenInput = (): void => {
-      if (el.name) {
-        if (!hiddenInput) {
-          hiddenInput = document.createElement("input");
-          hiddenInput.type = "hidden";
-          ctx.element.appendChild(hiddenInput);
-        }
-        hiddenInput.name = el.name;
-        hiddenInput.value = String(el.value);
-      } else if (hiddenInput) {
-        hiddenInput.remove();
-        hiddenInput = null;
-      }
-    };
-
-    const updateHiddenInput = (): void => {
-      if (hiddenInput) {
-        hiddenInput.value = String(el.value);
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
+
+    // Submit the value through ElementInternals and report min/max validity
+    const updateForm = (): void => {
+      const anchor = getInput() || getDisplay();
+      ctx.form.setValue(String(el.value));
+
+      if (el.value < el.min) {
+        ctx.form.setValidity(
+          { rangeUnderflow: true },
+          VALIDATION.rangeUnderflow(el.min),
+          anchor
+        );
+      } else if (el.value > el.max) {
+        ctx.form.setValidity(
+          { rangeOverflow: true },
+          VALIDATION.rangeOverflow(el.max),
+          anchor
+        );
+      } else {
+        ctx.form.setValidity();
       }
     };
 
@@ -139,7 +152,7 @@ defineComponent({
         setAriaLabel(target, el.label);
       }
 
-      if (el.disabled) {
+      if (isDisabled()) {
         target.setAttribute(ARIA.disabled, "true");
         target.setAttribute("tabindex", "-1");
       } else {
@@ -197,11 +210,17 @@ defineComponent({
       const clampedValue = clamp(roundToStep(newValue));
 
       if (clampedValue === oldValue) return;
+      if (
+        emitEvent &&
+        !ctx.emit("beforechange", { value: clampedValue, oldValue })
+      ) {
+        return;
+      }
 
       el.value = clampedValue;
       updateAria();
       updateVisuals();
-      updateHiddenInput();
+      updateForm();
 
       if (emitEvent) {
         ctx.emit("change", { value: el.value, oldValue });
@@ -220,11 +239,17 @@ defineComponent({
     // Initial setup
     updateAria();
     updateVisuals();
-    setupHiddenInput();
+    updateForm();
+
+    ctx.form.onReset(() => setValue(defaultValue, false));
+    ctx.form.onRestore((state) => {
+      if (typeof state === "string") setValue(Number(state), false);
+    });
+    ctx.form.onDisabled(updateAria);
 
     Object.assign(ctx.element, {
       handleKeyDown(e: KeyboardEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const target = e.target as HTMLElement;
         const input = getInput();
@@ -264,19 +289,19 @@ defineComponent({
       },
 
       handleIncrement(e: Event): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
         e.preventDefault();
         increment();
       },
 
       handleDecrement(e: Event): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
         e.preventDefault();
         decrement();
       },
 
       handleInput(e: Event): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const input = e.target as HTMLInputElement;
         const numValue = parseFloat(input.value);
@@ -287,7 +312,7 @@ defineComponent({
       },
 
       handleWheel(e: WheelEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         const target = e.target as HTMLElement;
         const input = getInput();
@@ -332,35 +357,14 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        const attr = mutation.attributeName ?? "";
-        if (
-          [
-            "min",
-            "max",
-            "value",
-            "step",
-            "pageStep",
-            "disabled",
-            "label",
-            "wrap",
-          ].includes(attr)
-        ) {
-          updateAria();
-          updateVisuals();
-          if (attr === "value") {
-            updateHiddenInput();
-          }
-        }
-        if (attr === "name") {
-          setupHiddenInput();
-        }
+    ctx.watch(
+      ["min", "max", "value", "step", "pageStep", "disabled", "label", "wrap"],
+      () => {
+        updateAria();
+        updateVisuals();
+        updateForm();
       }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
+    );
   },
 });
 
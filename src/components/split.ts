@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
-import { SLOT, ARIA } from "../constants";
+import { defineComponent, detail } from "../factory";
+import { SLOT, ARIA, ORIENTATION } from "../constants";
 import { ensureId } from "../aria";
+import "./slot";
 
 interface SplitElement extends HTMLElement {
   direction: "horizontal" | "vertical";
@@ -39,7 +40,12 @@ defineComponent({
   `,
 
   props: [
-    { name: "direction", type: String, default: "horizontal" },
+    {
+      name: "direction",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
     { name: "min", type: Number, default: 0 },
     { name: "step", type: Number, default: 10 },
   ],
@@ -52,6 +58,10 @@ defineComponent({
     role: "none",
   },
 
+  emits: {
+    resize: detail<{ sizes: Record<string, string> }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as SplitElement;
 
@@ -467,10 +477,6 @@ defineComponent({
             break;
           }
         }
-        if (mutation.type === "attributes" && mutation.attributeName === "direction") {
-          shouldReinit = true;
-          break;
-        }
       }
 
       if (shouldReinit) {
@@ -478,10 +484,10 @@ defineComponent({
       }
     });
 
-    observer.observe(el, {
-      childList: true,
-      attributes: true,
-      attributeFilter: ["direction"],
+    observer.observe(el, { childList: true });
+
+    ctx.watch("direction", () => {
+      if (!isInitializing) init();
     });
 
     // Handle resize - with guard to prevent infinite loops
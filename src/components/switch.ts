@@ -1,11 +1,15 @@
-import { defineComponent } from "../factory";
-import { onAttributeChange } from "../core/observe";
-import { SLOT, ARIA, KEY } from "../constants";
+import { defineComponent, detail } from "../factory";
+import { SLOT, ARIA, KEY, VALIDATION } from "../constants";
+import "./slot";
 
 interface SwitchElement extends HTMLElement {
   pressed: boolean;
   disabled: boolean;
   label: string;
+  name: string;
+  value: string;
+  required: boolean;
+  controlled: boolean;
   handleClick(): void;
 }
 
@@ -14,13 +18,20 @@ defineComponent({
 
   styles: `
     w-switch { display: inline-block; }
-    w-switch[disabled] > w-slot[trigger] > * { pointer-events: none; }
+    w-switch[disabled] > w-slot[trigger] > *,
+    w-switch:disabled > w-slot[trigger] > * { pointer-events: none; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "pressed", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
     { name: "label", type: String, default: "" },
+    { name: "name", type: String, default: "" },
+    { name: "value", type: String, default: "" }, // Submitted when pressed ("on" if empty)
+    { name: "required", type: Boolean, default: false },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -42,10 +53,39 @@ defineComponent({
     role: "none",
   },
 
+  emits: {
+    beforechange: detail<{ pressed: boolean }>(),
+    change: detail<{ pressed: boolean }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as SwitchElement;
     const trigger = ctx.children.trigger as HTMLElement | null;
 
+    // Pressed state to return to on form.reset()
+    const defaultPressed = el.pressed;
+
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
+
+    // Checkbox semantics: submit the value only while pressed
+    const updateForm = (): void => {
+      ctx.form.setValue(
+        el.pressed ? el.value || "on" : null,
+        String(el.pressed)
+      );
+
+      if (el.required && !el.pressed) {
+        ctx.form.setValidity(
+          { valueMissing: true },
+          VALIDATION.checkMissing,
+          trigger
+        );
+      } else {
+        ctx.form.setValidity();
+      }
+    };
+
     const updateAria = (): void => {
       if (!trigger) return;
 
@@ -56,7 +96,7 @@ defineComponent({
         trigger.setAttribute(ARIA.label, el.label);
       }
 
-      if (el.disabled) {
+      if (isDisabled()) {
         trigger.setAttribute(ARIA.disabled, "true");
         trigger.setAttribute("tabindex", "-1");
       } else {
@@ -66,19 +106,38 @@ defineComponent({
     };
 
     updateAria();
+    updateForm();
+
+    ctx.form.onReset(() => {
+      el.pressed = defaultPressed;
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onRestore((state) => {
+      el.pressed = state === "true";
+      updateAria();
+      updateForm();
+    });
+    ctx.form.onDisabled(updateAria);
 
     Object.assign(ctx.element, {
       handleClick(): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
-        el.pressed = !el.pressed;
-        updateAria();
+        const pressed = !el.pressed;
+        if (!ctx.emit("beforechange", { pressed })) return;
 
-        ctx.emit("change", { pressed: el.pressed });
+        if (!el.controlled) {
+          el.pressed = pressed;
+          updateAria();
+          updateForm();
+        }
+
+        ctx.emit("change", { pressed });
       },
 
       handleKeyDown(e: KeyboardEvent): void {
-        if (el.disabled) return;
+        if (isDisabled()) return;
 
         if (e.key === KEY.Enter || e.key === KEY.Space) {
           e.preventDefault();
@@ -91,13 +150,10 @@ defineComponent({
       },
     });
 
-    ctx.onCleanup(
-      onAttributeChange(
-        ctx.element,
-        ["pressed", "disabled", "label"],
-        updateAria
-      )
-    );
+    ctx.watch(["pressed", "disabled", "label", "value", "required"], () => {
+      updateAria();
+      updateForm();
+    });
   },
 });
 
@@ -1,12 +1,14 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
 import { createRovingTabindex } from "../infra/focus";
-import { SLOT, ARIA, getSlotName } from "../constants";
+import { SLOT, ARIA, getSlotName, ORIENTATION } from "../constants";
+import "./slot";
 
 interface TabsElement extends HTMLElement {
   value: string;
   orientation: string;
   activation: string;
+  controlled: boolean;
 }
 
 defineComponent({
@@ -22,8 +24,19 @@ defineComponent({
 
   props: [
     { name: "value", type: String, default: "" },
-    { name: "orientation", type: String, default: "horizontal" },
-    { name: "activation", type: String, default: "automatic" },
+    {
+      name: "orientation",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
+    {
+      name: "activation",
+      type: String,
+      default: "automatic",
+      values: ["automatic", "manual"],
+    },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -42,6 +55,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforechange: detail<{ value: string }>(),
+    change: detail<{ value: string }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as TabsElement;
 
@@ -102,6 +120,20 @@ defineComponent({
       });
     };
 
+    // Returns false when the tab is already selected, a beforechange
+    // listener vetoed the switch, or the host applies it (controlled mode).
+    const changeTab = (name: string): boolean => {
+      if (name === el.value) return false;
+      if (!ctx.emit("beforechange", { value: name })) return false;
+
+      if (!el.controlled) {
+        el.value = name;
+        updateAria();
+      }
+      ctx.emit("change", { value: name });
+      return !el.controlled;
+    };
+
     const setupRovingTabindex = (): void => {
       const tabs = getTabs();
 
@@ -116,11 +148,7 @@ defineComponent({
           if (el.activation === "automatic") {
             const tab = tabs[index];
             const tabName = getSlotName(tab);
-            if (tabName && tabName !== el.value) {
-              el.value = tabName;
-              updateAria();
-              ctx.emit("change", { value: tabName });
-            }
+            if (tabName) changeTab(tabName);
           }
         },
       });
@@ -145,12 +173,7 @@ defineComponent({
         if (!tabsContainer || !tabsContainer.contains(target)) return;
 
         const tabName = getSlotName(target);
-
-        if (tabName && tabName !== el.value) {
-          el.value = tabName;
-          updateAria();
-          ctx.emit("change", { value: tabName });
-        }
+        if (tabName) changeTab(tabName);
       },
 
       handleKeyDown(e: KeyboardEvent): void {
@@ -163,9 +186,7 @@ defineComponent({
             const tabName = getSlotName(target);
             if (tabName && tabName !== el.value) {
               e.preventDefault();
-              el.value = tabName;
-              updateAria();
-              ctx.emit("change", { value: tabName });
+              changeTab(tabName);
             }
           }
         }
@@ -181,11 +202,8 @@ defineComponent({
       },
 
       selectTab(name: string): void {
-        if (name !== el.value) {
-          el.value = name;
-          updateAria();
+        if (changeTab(name)) {
           setupRovingTabindex();
-          ctx.emit("change", { value: name });
         }
       },
 
@@ -194,20 +212,10 @@ defineComponent({
       },
     });
 
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "value" ||
-          mutation.attributeName === "orientation"
-        ) {
-          updateAria();
-          setupRovingTabindex();
-        }
-      }
+    ctx.watch(["value", "orientation"], () => {
+      updateAria();
+      setupRovingTabindex();
     });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
   },
 });
 
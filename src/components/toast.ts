@@ -1,7 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { teleport } from "../infra/portal";
-import { onAttributeChange } from "../core/observe";
 import { SLOT, ARIA } from "../constants";
+import "./slot";
 
 interface ToastElement extends HTMLElement {
   open: boolean;
@@ -30,6 +30,22 @@ defineComponent({
     close: SLOT.close,
   },
 
+  transitions: {
+    content: {
+      enterClass: "toast-enter",
+      enterFromClass: "toast-enter-from",
+      enterToClass: "toast-enter-to",
+      leaveClass: "toast-leave",
+      leaveFromClass: "toast-leave-from",
+      leaveToClass: "toast-leave-to",
+    },
+  },
+
+  emits: {
+    open: detail(),
+    close: detail(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as ToastElement;
 
@@ -47,11 +63,12 @@ defineComponent({
         el.setAttribute(ARIA.label, el.label);
       }
 
-      // Handle visibility - use style.display to override any inline styles
+      // Handle visibility - use style.display to override any inline styles.
+      // A closing toast hides itself once its leave transition ends.
       if (el.open) {
         el.style.display = "";
         el.hidden = false;
-      } else {
+      } else if (ctx.transitions.content?.state !== "leaving") {
         el.style.display = "none";
         el.hidden = true;
       }
@@ -67,6 +84,7 @@ defineComponent({
 
       el.style.display = "";
       el.hidden = false;
+      ctx.transitions.content?.enter();
 
       // Start auto-close timer if duration is set
       if (el.duration > 0 && !autoCloseTimer) {
@@ -84,18 +102,26 @@ defineComponent({
 
       // Remove attribute directly to ensure it's removed
       el.removeAttribute("open");
-      el.style.display = "none";
-      el.hidden = true;
 
       if (autoCloseTimer) {
         clearTimeout(autoCloseTimer);
         autoCloseTimer = null;
       }
 
-      // Restore from portal
-      if (portalCleanup) {
-        portalCleanup();
-        portalCleanup = null;
+      // Hide and restore from portal once the toast has animated out
+      const hide = (): void => {
+        el.style.display = "none";
+        el.hidden = true;
+
+        if (portalCleanup) {
+          portalCleanup();
+          portalCleanup = null;
+        }
+      };
+      if (ctx.transitions.content) {
+        ctx.transitions.content.leave(hide);
+      } else {
+        hide();
       }
 
       ctx.emit("close");
@@ -114,14 +140,12 @@ defineComponent({
       closeToast();
     });
 
-    ctx.onCleanup(
-      onAttributeChange(ctx.element, ["open", "variant", "label"], () => {
-        updateAria();
-        if (el.open) {
-          openToast();
-        }
-      })
-    );
+    ctx.watch(["open", "variant", "label"], () => {
+      updateAria();
+      if (el.open) {
+        openToast();
+      }
+    });
 
     ctx.onCleanup(() => {
       if (autoCloseTimer) {
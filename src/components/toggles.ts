@@ -1,12 +1,15 @@
-import { defineComponent } from "../factory";
-import { onAttributeChange } from "../core/observe";
-import { SLOT, ARIA, KEY, getSlotName } from "../constants";
+import { defineComponent, detail } from "../factory";
+import { SLOT, ARIA, KEY, VALIDATION, getSlotName } from "../constants";
+import "./slot";
 
 interface TogglesElement extends HTMLElement {
   value: string;
   multiple: boolean;
   disabled: boolean;
   label: string;
+  name: string;
+  required: boolean;
+  controlled: boolean;
   handleItemClick(e: Event, target: HTMLElement): void;
   handleKeyDown(e: KeyboardEvent): void;
 }
@@ -16,14 +19,19 @@ defineComponent({
 
   styles: `
     w-toggles { display: inline-flex; }
-    w-toggles[disabled] { pointer-events: none; }
+    w-toggles[disabled], w-toggles:disabled { pointer-events: none; }
   `,
 
+  formAssociated: true,
+
   props: [
     { name: "value", type: String, default: "" },
     { name: "multiple", type: Boolean, default: false },
     { name: "disabled", type: Boolean, default: false },
     { name: "label", type: String, default: "" },
+    { name: "name", type: String, default: "" },
+    { name: "required", type: Boolean, default: false },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -40,6 +48,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    beforechange: detail<{ value: string[] }>(),
+    change: detail<{ value: string[] }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as TogglesElement;
 
@@ -51,6 +64,35 @@ defineComponent({
       return value ? value.split(",").filter(Boolean) : [];
     };
 
+    // Selection to return to on form.reset()
+    const defaultValue = el.value;
+
+    // Own disabled attribute or an ancestor <fieldset disabled>
+    const isDisabled = (): boolean => el.disabled || ctx.form.disabled;
+
+    // Submit one entry per pressed item (like a group of checkboxes)
+    const updateForm = (): void => {
+      const values = getSelectedValues();
+
+      if (el.multiple && el.name) {
+        const data = new FormData();
+        values.forEach((value) => data.append(el.name, value));
+        ctx.form.setValue(data, values.join(","));
+      } else {
+        ctx.form.setValue(values[0] ?? null, values.join(","));
+      }
+
+      if (el.required && values.length === 0) {
+        ctx.form.setValidity(
+          { valueMissing: true },
+          VALIDATION.choiceMissing,
+          getItems()[0]
+        );
+      } else {
+        ctx.form.setValidity();
+      }
+    };
+
     const setSelectedValues = (values: string[]): void => {
       const newValue = values.join(",");
       el.value = newValue;
@@ -75,7 +117,7 @@ defineComponent({
         item.setAttribute(ARIA.pressed, String(isPressed));
         item.setAttribute("tabindex", index === 0 ? "0" : "-1");
 
-        if (el.disabled || item.hasAttribute("disabled")) {
+        if (isDisabled() || item.hasAttribute("disabled")) {
           item.setAttribute(ARIA.disabled, "true");
         } else {
           item.removeAttribute(ARIA.disabled);
@@ -84,27 +126,34 @@ defineComponent({
     };
 
     const toggleItem = (item: HTMLElement): void => {
-      if (el.disabled || item.hasAttribute("disabled")) return;
+      if (isDisabled() || item.hasAttribute("disabled")) return;
 
       const itemName = getSlotName(item) || "";
       const selectedValues = getSelectedValues();
+      let value: string[];
 
       if (!el.multiple) {
         if (!selectedValues.includes(itemName)) {
-          setSelectedValues([itemName]);
+          value = [itemName];
         } else {
           return;
         }
       } else {
         if (selectedValues.includes(itemName)) {
-          setSelectedValues(selectedValues.filter((v) => v !== itemName));
+          value = selectedValues.filter((v) => v !== itemName);
         } else {
-          setSelectedValues([...selectedValues, itemName]);
+          value = [...selectedValues, itemName];
         }
       }
 
-      updateAria();
-      ctx.emit("change", { value: getSelectedValues() });
+      if (!ctx.emit("beforechange", { value })) return;
+
+      if (!el.controlled) {
+        setSelectedValues(value);
+        updateAria();
+        updateForm();
+      }
+      ctx.emit("change", { value });
     };
 
     const focusItem = (index: number): void => {
@@ -118,6 +167,17 @@ defineComponent({
     };
 
     updateAria();
+    updateForm();
+
+    ctx.form.onReset(() =>
+      setSelectedValues(defaultValue.split(",").filter(Boolean))
+    );
+    ctx.form.onRestore((state) => {
+      if (typeof state === "string") {
+        setSelectedValues(state.split(",").filter(Boolean));
+      }
+    });
+    ctx.form.onDisabled(updateAria);
 
     Object.assign(ctx.element, {
       handleItemClick(_e: Event, target: HTMLElement): void {
@@ -165,9 +225,10 @@ defineComponent({
       },
     });
 
-    ctx.onCleanup(
-      onAttributeChange(ctx.element, ["value", "disabled", "label"], updateAria)
-    );
+    ctx.watch(["value", "disabled", "label", "name", "required"], () => {
+      updateAria();
+      updateForm();
+    });
   },
 });
 
@@ -1,7 +1,8 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaLabel, setAriaOrientation } from "../aria";
 import { createRovingTabindex } from "../infra/focus";
-import { SLOT, ARIA, KEY, getSlotName } from "../constants";
+import { SLOT, ARIA, KEY, getSlotName, ORIENTATION } from "../constants";
+import "./slot";
 
 interface ToolbarElement extends HTMLElement {
   label: string;
@@ -19,7 +20,12 @@ defineComponent({
 
   props: [
     { name: "label", type: String, default: "Toolbar" },
-    { name: "orientation", type: String, default: "horizontal" },
+    {
+      name: "orientation",
+      type: String,
+      default: "horizontal",
+      values: ORIENTATION,
+    },
   ],
 
   children: {
@@ -41,6 +47,10 @@ defineComponent({
     role: "toolbar",
   },
 
+  emits: {
+    action: detail<{ item: string | null; element: HTMLElement }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as ToolbarElement;
 
@@ -120,21 +130,8 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "label" ||
-          mutation.attributeName === "orientation"
-        ) {
-          updateAria();
-          if (mutation.attributeName === "orientation") {
-            setupRovingTabindex();
-          }
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["label", "orientation"], updateAria);
+    ctx.watch("orientation", setupRovingTabindex);
 
     // Watch for child changes
     const childObserver = new MutationObserver(() => {
@@ -145,7 +142,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true, subtree: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
       rovingTabindex?.destroy();
     });
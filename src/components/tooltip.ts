@@ -1,12 +1,16 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
-import { autoPosition, type Placement } from "../infra/position";
-import { teleport } from "../infra/portal";
+import { floating } from "../behaviors";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
+
+const popup = floating({ placement: "top", offset: 8 });
 
 defineComponent({
   tag: "w-tooltip",
 
+  behaviors: [popup],
+
   styles: `
     w-tooltip { display: contents; }
     [role="tooltip"]:not([hidden]) { pointer-events: none; }
@@ -14,10 +18,8 @@ defineComponent({
 
   props: [
     { name: "open", type: Boolean, default: false },
-    { name: "placement", type: String, default: "top" },
     { name: "delay", type: Number, default: 300 },
     { name: "closeDelay", type: Number, default: 100 },
-    { name: "portal", type: Boolean, default: true },
   ],
 
   children: {
@@ -51,6 +53,11 @@ defineComponent({
     },
   },
 
+  emits: {
+    show: detail(),
+    hide: detail(),
+  },
+
   setup(ctx) {
     type TooltipElement = HTMLElement & {
       open: boolean;
@@ -60,39 +67,17 @@ defineComponent({
       portal: boolean;
     };
 
+    const el = ctx.element as unknown as TooltipElement;
+    const position = ctx.use(popup);
+
     const getTrigger = (): HTMLElement | null =>
       ctx.query<HTMLElement>(SLOT.trigger);
 
-    let contentRef: HTMLElement | null = null;
-
-    const getContent = (): HTMLElement | null => {
-      const localContent = ctx.query<HTMLElement>(SLOT.body);
-      if (localContent) {
-        contentRef = localContent;
-        return localContent;
-      }
-      if (contentRef && document.body.contains(contentRef)) {
-        return contentRef;
-      }
-      const portaledContent = document.querySelector<HTMLElement>(
-        `${SLOT.body}[data-portal-owner="${ctx.element.id}"]`
-      );
-      if (portaledContent) {
-        contentRef = portaledContent;
-        return portaledContent;
-      }
-      return null;
-    };
-
-    // Portal cleanup function
-    let portalCleanup: (() => void) | null = null;
-    // Direct event listeners for portaled content
-    let contentMouseEnterHandler: (() => void) | null = null;
-    let contentMouseLeaveHandler: (() => void) | null = null;
+    const getContent = (): HTMLElement | null =>
+      ctx.query<HTMLElement>(SLOT.body);
 
     let openTimeoutId: ReturnType<typeof setTimeout> | null = null;
     let closeTimeoutId: ReturnType<typeof setTimeout> | null = null;
-    let positionCleanup: (() => void) | null = null;
 
     const clearTimers = (): void => {
       if (openTimeoutId !== null) {
@@ -108,7 +93,6 @@ defineComponent({
     const updateAria = (): void => {
       const trigger = getTrigger();
       const content = getContent();
-      const el = ctx.element as unknown as TooltipElement;
 
       if (trigger && content) {
         const contentId = ensureId(content, "w-tooltip");
@@ -124,7 +108,6 @@ defineComponent({
     const show = (): void => {
       const trigger = getTrigger();
       const content = getContent();
-      const el = ctx.element as unknown as TooltipElement;
 
       if (!trigger || !content || el.open) return;
 
@@ -133,33 +116,7 @@ defineComponent({
       el.open = true;
       updateAria();
 
-      // Teleport content to portal if enabled
-      if (el.portal) {
-        // Add tracking attribute to link portaled content back to owner
-        ensureId(ctx.element, "w-tooltip");
-        content.setAttribute("data-portal-owner", ctx.element.id);
-
-        portalCleanup = teleport(content);
-
-        // Attach mouse event listeners directly to portaled content
-        // (since we need to keep tooltip open on content hover)
-        contentMouseEnterHandler = () => {
-          clearTimers();
-        };
-        contentMouseLeaveHandler = () => {
-          scheduleHide();
-        };
-        content.addEventListener("mouseenter", contentMouseEnterHandler);
-        content.addEventListener("mouseleave", contentMouseLeaveHandler);
-      }
-
-      // Position content
-      positionCleanup = autoPosition({
-        reference: trigger,
-        floating: content,
-        placement: el.placement as Placement,
-        offset: 8,
-      });
+      position.attach(trigger, content);
 
       // Transition
       ctx.transitions.content?.enter();
@@ -168,36 +125,15 @@ defineComponent({
     };
 
     const hide = (): void => {
-      const content = getContent();
-      const el = ctx.element as unknown as TooltipElement;
-
       if (!el.open) return;
 
       clearTimers();
 
-      // Cleanup position
-      positionCleanup?.();
-      positionCleanup = null;
-
-      // Remove direct event listeners from portaled content
-      if (content && contentMouseEnterHandler) {
-        content.removeEventListener("mouseenter", contentMouseEnterHandler);
-        contentMouseEnterHandler = null;
-      }
-      if (content && contentMouseLeaveHandler) {
-        content.removeEventListener("mouseleave", contentMouseLeaveHandler);
-        contentMouseLeaveHandler = null;
-      }
-
-      // Transition
-      ctx.transitions.content?.leave();
-
-      // Restore content from portal
-      if (portalCleanup) {
-        portalCleanup();
-        portalCleanup = null;
-        // Remove tracking attribute
-        content?.removeAttribute("data-portal-owner");
+      // Leave the portal once the content has animated out
+      if (ctx.transitions.content) {
+        ctx.transitions.content.leave(() => position.detach());
+      } else {
+        position.detach();
       }
 
       el.open = false;
@@ -207,8 +143,6 @@ defineComponent({
     };
 
     const scheduleShow = (): void => {
-      const el = ctx.element as unknown as TooltipElement;
-
       clearTimers();
 
       if (el.delay > 0) {
@@ -219,8 +153,6 @@ defineComponent({
     };
 
     const scheduleHide = (): void => {
-      const el = ctx.element as unknown as TooltipElement;
-
       clearTimers();
 
       if (el.closeDelay > 0) {
@@ -251,12 +183,9 @@ defineComponent({
       },
 
       handleKeyDown(e: KeyboardEvent): void {
-        if (e.key === KEY.Escape) {
-          const el = ctx.element as unknown as TooltipElement;
-          if (el.open) {
-            e.preventDefault();
-            hide();
-          }
+        if (e.key === KEY.Escape && el.open) {
+          e.preventDefault();
+          hide();
         }
       },
 
@@ -269,60 +198,23 @@ defineComponent({
       },
     });
 
-    // Add direct mouse event listeners (mouseenter/mouseleave don't bubble)
+    // Direct mouse listeners: mouseenter/mouseleave don't bubble. Hovering
+    // the content keeps the tooltip open; the listeners stay on it while
+    // it is in the portal.
     const trigger = getTrigger();
     const content = getContent();
 
-    if (trigger) {
-      const handleTriggerMouseEnter = (): void => {
-        scheduleShow();
-      };
-      const handleTriggerMouseLeave = (): void => {
-        scheduleHide();
-      };
-
-      trigger.addEventListener("mouseenter", handleTriggerMouseEnter);
-      trigger.addEventListener("mouseleave", handleTriggerMouseLeave);
-
-      ctx.onCleanup(() => {
-        trigger.removeEventListener("mouseenter", handleTriggerMouseEnter);
-        trigger.removeEventListener("mouseleave", handleTriggerMouseLeave);
-      });
-    }
-
-    // Mouse enter/leave on content to keep tooltip open (only for non-portal mode)
-    // In portal mode, these are added/removed in show/hide
-    const el = ctx.element as unknown as TooltipElement;
-    if (content && !el.portal) {
-      const handleContentMouseEnter = (): void => {
-        clearTimers();
-      };
-      const handleContentMouseLeave = (): void => {
-        scheduleHide();
-      };
-
-      content.addEventListener("mouseenter", handleContentMouseEnter);
-      content.addEventListener("mouseleave", handleContentMouseLeave);
-
-      ctx.onCleanup(() => {
-        content.removeEventListener("mouseenter", handleContentMouseEnter);
-        content.removeEventListener("mouseleave", handleContentMouseLeave);
-      });
-    }
+    trigger?.addEventListener("mouseenter", scheduleShow);
+    trigger?.addEventListener("mouseleave", scheduleHide);
+    content?.addEventListener("mouseenter", clearTimers);
+    content?.addEventListener("mouseleave", scheduleHide);
 
     ctx.onCleanup(() => {
       clearTimers();
-      positionCleanup?.();
-
-      // Clean up portal and direct event listeners
-      const contentEl = getContent();
-      if (contentEl && contentMouseEnterHandler) {
-        contentEl.removeEventListener("mouseenter", contentMouseEnterHandler);
-      }
-      if (contentEl && contentMouseLeaveHandler) {
-        contentEl.removeEventListener("mouseleave", contentMouseLeaveHandler);
-      }
-      portalCleanup?.();
+      trigger?.removeEventListener("mouseenter", scheduleShow);
+      trigger?.removeEventListener("mouseleave", scheduleHide);
+      content?.removeEventListener("mouseenter", clearTimers);
+      content?.removeEventListener("mouseleave", scheduleHide);
     });
   },
 });
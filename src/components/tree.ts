@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { ensureId } from "../aria";
-import { SLOT, ARIA, KEY, getSlotName } from "../constants";
+import { SLOT, ARIA, getSlotName } from "../constants";
+import "./slot";
 
 const TOGGLE_ATTR: string = "toggle";
 
@@ -15,6 +16,7 @@ defineComponent({
     { name: "value", type: String, default: "" },
     { name: "expanded", type: String, default: "" }, // Comma-separated expanded item names
     { name: "multiselect", type: Boolean, default: false },
+    { name: "controlled", type: Boolean, default: false },
   ],
 
   children: {
@@ -26,9 +28,12 @@ defineComponent({
       selector: SLOT.item,
       handler: "handleItemClick",
     },
-    keydown: {
-      handler: "handleKeyDown",
-    },
+  },
+
+  emits: {
+    beforetoggle: detail<{ item: string; expanded: boolean }>(),
+    toggle: detail<{ item: string; expanded: boolean }>(),
+    select: detail<{ value: string }>(),
   },
 
   setup(ctx) {
@@ -36,6 +41,7 @@ defineComponent({
       value: string;
       expanded: string;
       multiselect: boolean;
+      controlled: boolean;
     };
 
     const getAllItems = (): HTMLElement[] => {
@@ -148,25 +154,29 @@ defineComponent({
     const toggleExpanded = (itemName: string): void => {
       const el = ctx.element as unknown as TreeElement;
       const expandedItems = getExpandedItems();
+      const expanded = !expandedItems.has(itemName);
 
-      if (expandedItems.has(itemName)) {
-        expandedItems.delete(itemName);
-      } else {
+      if (!ctx.emit("beforetoggle", { item: itemName, expanded })) return;
+
+      if (expanded) {
         expandedItems.add(itemName);
+      } else {
+        expandedItems.delete(itemName);
       }
 
-      el.expanded = Array.from(expandedItems).join(",");
-      updateAria();
+      // In controlled mode the host applies the change by setting `expanded`
+      if (!el.controlled) {
+        el.expanded = Array.from(expandedItems).join(",");
+        updateAria();
+      }
 
-      ctx.emit("toggle", {
-        item: itemName,
-        expanded: expandedItems.has(itemName),
-      });
+      ctx.emit("toggle", { item: itemName, expanded });
     };
 
     const selectItem = (itemName: string): void => {
       const el = ctx.element as unknown as TreeElement;
       const selectedItems = getSelectedItems();
+      let value: string;
 
       if (el.multiselect) {
         if (selectedItems.has(itemName)) {
@@ -174,15 +184,106 @@ defineComponent({
         } else {
           selectedItems.add(itemName);
         }
-        el.value = Array.from(selectedItems).join(",");
+        value = Array.from(selectedItems).join(",");
       } else {
-        el.value = itemName;
+        value = itemName;
+      }
+
+      if (!el.controlled) {
+        el.value = value;
+        updateAria();
       }
+      ctx.emit("select", { value });
+    };
 
-      updateAria();
-      ctx.emit("select", { value: el.value });
+    const focusItem = (target: HTMLElement, index: number): void => {
+      const visibleItems = getVisibleItems();
+      const newItem = visibleItems[index];
+      if (!newItem || newItem === target) return;
+      visibleItems.forEach((item) => {
+        item.setAttribute("tabindex", item === newItem ? "0" : "-1");
+      });
+      newItem.focus();
     };
 
+    const moveBy = (target: HTMLElement, offset: number): void => {
+      const visibleItems = getVisibleItems();
+      const index = visibleItems.indexOf(target);
+      if (index === -1) return;
+      const next = Math.min(Math.max(index + offset, 0), visibleItems.length - 1);
+      focusItem(target, next);
+    };
+
+    const isExpandedItem = (item: HTMLElement): boolean => {
+      return getExpandedItems().has(getSlotName(item) ?? "");
+    };
+
+    const activate = (_: KeyboardEvent, target: HTMLElement): void => {
+      const itemName = getSlotName(target) ?? "";
+      if (hasChildren(target)) {
+        toggleExpanded(itemName);
+      }
+      selectItem(itemName);
+    };
+
+    // Keys can be remapped per instance, e.g. keymap="j:ArrowDown k:ArrowUp"
+    ctx.events.keys(
+      {
+        ArrowDown: (_, target) => moveBy(target, 1),
+        ArrowUp: (_, target) => moveBy(target, -1),
+
+        ArrowRight: (_, target) => {
+          if (!hasChildren(target)) return;
+          if (!isExpandedItem(target)) {
+            toggleExpanded(getSlotName(target) ?? "");
+            return;
+          }
+          // Move to first child
+          const visibleItems = getVisibleItems();
+          const firstChild = visibleItems[visibleItems.indexOf(target) + 1];
+          if (firstChild && getItemLevel(firstChild) > getItemLevel(target)) {
+            focusItem(target, visibleItems.indexOf(firstChild));
+          }
+        },
+
+        ArrowLeft: (_, target) => {
+          if (hasChildren(target) && isExpandedItem(target)) {
+            toggleExpanded(getSlotName(target) ?? "");
+            return;
+          }
+          // Move to parent
+          const parent = target.parentElement?.closest<HTMLElement>(SLOT.item);
+          if (parent && ctx.element.contains(parent)) {
+            focusItem(target, getVisibleItems().indexOf(parent));
+          }
+        },
+
+        Home: (_, target) => focusItem(target, 0),
+        End: (_, target) => focusItem(target, getVisibleItems().length - 1),
+        Enter: activate,
+        Space: activate,
+
+        // Expand all siblings at current level
+        "*": (_, target) => {
+          const expandedItems = getExpandedItems();
+          const currentLevel = getItemLevel(target);
+          getVisibleItems().forEach((item) => {
+            if (getItemLevel(item) === currentLevel && hasChildren(item)) {
+              const name = getSlotName(item);
+              if (name && !expandedItems.has(name)) {
+                expandedItems.add(name);
+              }
+            }
+          });
+          (ctx.element as unknown as TreeElement).expanded =
+            Array.from(expandedItems).join(",");
+          updateAria();
+        },
+      },
+      // Items can hold inputs and buttons; leave their keys alone
+      { selector: SLOT.item, self: true }
+    );
+
     // Initial setup
     updateAria();
 
@@ -213,121 +314,6 @@ defineComponent({
         target.focus();
       },
 
-      handleKeyDown(e: KeyboardEvent): void {
-        const target = e.target as HTMLElement;
-        if (!target.matches(SLOT.item)) return;
-
-        const visibleItems = getVisibleItems();
-        const currentIndex = visibleItems.indexOf(target);
-        if (currentIndex === -1) return;
-
-        const itemName = getSlotName(target) ?? "";
-        const expandedItems = getExpandedItems();
-        const itemHasChildren = hasChildren(target);
-        const isExpanded = expandedItems.has(itemName);
-
-        let newIndex = currentIndex;
-
-        switch (e.key) {
-          case KEY.ArrowDown:
-            e.preventDefault();
-            newIndex = Math.min(currentIndex + 1, visibleItems.length - 1);
-            break;
-
-          case KEY.ArrowUp:
-            e.preventDefault();
-            newIndex = Math.max(currentIndex - 1, 0);
-            break;
-
-          case KEY.ArrowRight:
-            e.preventDefault();
-            if (itemHasChildren) {
-              if (!isExpanded) {
-                toggleExpanded(itemName);
-              } else {
-                // Move to first child
-                const newVisible = getVisibleItems();
-                const firstChild = newVisible[currentIndex + 1];
-                if (
-                  firstChild &&
-                  getItemLevel(firstChild) > getItemLevel(target)
-                ) {
-                  newIndex = currentIndex + 1;
-                }
-              }
-            }
-            break;
-
-          case KEY.ArrowLeft:
-            e.preventDefault();
-            if (itemHasChildren && isExpanded) {
-              toggleExpanded(itemName);
-            } else {
-              // Move to parent
-              let parent = target.parentElement;
-              while (parent && parent !== ctx.element) {
-                if (parent.matches(SLOT.item)) {
-                  const parentIndex = visibleItems.indexOf(
-                    parent as HTMLElement
-                  );
-                  if (parentIndex !== -1) {
-                    newIndex = parentIndex;
-                  }
-                  break;
-                }
-                parent = parent.parentElement;
-              }
-            }
-            break;
-
-          case KEY.Home:
-            e.preventDefault();
-            newIndex = 0;
-            break;
-
-          case KEY.End:
-            e.preventDefault();
-            newIndex = visibleItems.length - 1;
-            break;
-
-          case KEY.Enter:
-          case KEY.Space:
-            e.preventDefault();
-            if (itemHasChildren) {
-              toggleExpanded(itemName);
-            }
-            selectItem(itemName);
-            return;
-
-          case "*":
-            e.preventDefault();
-            // Expand all siblings at current level
-            const currentLevel = getItemLevel(target);
-            visibleItems.forEach((item) => {
-              if (getItemLevel(item) === currentLevel && hasChildren(item)) {
-                const name = getSlotName(item);
-                if (name && !expandedItems.has(name)) {
-                  expandedItems.add(name);
-                }
-              }
-            });
-            (ctx.element as unknown as TreeElement).expanded =
-              Array.from(expandedItems).join(",");
-            updateAria();
-            return;
-        }
-
-        if (newIndex !== currentIndex) {
-          const newItem = getVisibleItems()[newIndex];
-          if (newItem) {
-            visibleItems.forEach((item) => {
-              item.setAttribute("tabindex", item === newItem ? "0" : "-1");
-            });
-            newItem.focus();
-          }
-        }
-      },
-
       expandItem(name: string): void {
         const el = ctx.element as unknown as TreeElement;
         const expandedItems = getExpandedItems();
@@ -365,19 +351,7 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "value" ||
-          mutation.attributeName === "expanded"
-        ) {
-          updateAria();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
-    ctx.onCleanup(() => observer.disconnect());
+    ctx.watch(["value", "expanded"], updateAria);
   },
 });
 
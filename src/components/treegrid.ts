@@ -1,6 +1,7 @@
-import { defineComponent } from "../factory";
+import { defineComponent, detail } from "../factory";
 import { setAriaLabel, ensureId, announcePolite } from "../aria";
 import { SLOT, ARIA, KEY } from "../constants";
+import "./slot";
 
 interface TreegridElement extends HTMLElement {
   label: string;
@@ -27,7 +28,12 @@ defineComponent({
 
   props: [
     { name: "label", type: String, default: "Tree Grid" },
-    { name: "selectionMode", type: String, default: "single" },
+    {
+      name: "selectionMode",
+      type: String,
+      default: "single",
+      values: ["none", "single", "multiple"],
+    },
     { name: "height", type: String, default: null },
   ],
 
@@ -49,6 +55,13 @@ defineComponent({
     role: "treegrid",
   },
 
+  emits: {
+    expand: detail<{ row: HTMLElement }>(),
+    collapse: detail<{ row: HTMLElement }>(),
+    select: detail<{ row: HTMLElement; selected: boolean }>(),
+    selectionCleared: detail(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as TreegridElement;
 
@@ -456,19 +469,8 @@ defineComponent({
     });
 
     // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        const name = mutation.attributeName ?? "";
-        if (["label", "selectionMode"].includes(name)) {
-          updateAria();
-        }
-        if (name === "height") {
-          applyHeight();
-        }
-      }
-    });
-
-    observer.observe(ctx.element, { attributes: true });
+    ctx.watch(["label", "selectionMode"], updateAria);
+    ctx.watch("height", applyHeight);
 
     // Watch for child changes
     const childObserver = new MutationObserver(() => {
@@ -479,7 +481,6 @@ defineComponent({
     childObserver.observe(ctx.element, { childList: true, subtree: true });
 
     ctx.onCleanup(() => {
-      observer.disconnect();
       childObserver.disconnect();
     });
   },
@@ -1,5 +1,14 @@
-import { defineComponent } from "../factory";
-import { Router, ROUTE_CHANGE_EVENT } from "../app";
+import { defineComponent, detail } from "../factory";
+import {
+  Router,
+  ROUTE_CHANGE_EVENT,
+  type RouteGuard,
+  type RouteLoader,
+  type RouteLoadState,
+  type RouteOptions,
+} from "../app";
+import { routeScore, type RouteParams } from "../core/routes";
+import "./slot";
 
 interface ViewElement extends HTMLElement {
   path: string;
@@ -8,18 +17,302 @@ interface ViewElement extends HTMLElement {
   hash: boolean;
   base: string;
   active: boolean;
+  strict: boolean;
+  sensitive: boolean;
+  /** Params of the current route, empty while inactive */
+  params: RouteParams;
+  /** Guard for navigations to this view (see RouteOptions.before) */
+  guard?: RouteGuard;
+  /** Loads the view's data once it is navigated to */
+  load?: RouteLoader;
+  /** What `load` resolved with */
+  data: unknown;
+  /** HTML fragment URL, or `.js` module, loaded on first activation */
+  src: string;
+  /** Take the content out of the page while the view is inactive */
+  discard: boolean;
 }
 
+// What a `src` module exports (as default): the content, or a function
+// rendering it for the view
+type ViewContent = string | Node;
+type ViewModule = {
+  default:
+    ViewContent | ((view: HTMLElement) => ViewContent | Promise<ViewContent>);
+};
+
 // Track all view instances for efficient updates
 const VIEWS = new Set<ViewElement>();
 
-// Normalize path for comparison (lowercase, remove trailing slashes, hyphens)
-const normalizePath = (path: string): string => {
-  return path
-    .toLowerCase()
-    .replace(/^[#/]+/, "") // Remove leading # or /
-    .replace(/\/+$/, "") // Remove trailing slashes
-    .replace(/-/g, ""); // Remove hyphens for flexible matching
+// Called by updateViewVisibility when a view (de)activates
+const ACTIVATE = new WeakMap<ViewElement, (active: boolean) => void>();
+
+// Prefetches a view's `src` unless it is loaded already
+const PREFETCH = new WeakMap<ViewElement, () => void>();
+
+// Why each view is aria-busy: its content (`src`) and/or data (`load`)
+const BUSY = new WeakMap<ViewElement, Set<string>>();
+
+const setBusy = (view: ViewElement, reason: string, busy: boolean): void => {
+  let reasons = BUSY.get(view);
+  if (!reasons) {
+    reasons = new Set();
+    BUSY.set(view, reasons);
+  }
+  if (busy) {
+    reasons.add(reason);
+    view.setAttribute("aria-busy", "true");
+  } else if (reasons.delete(reason) && reasons.size === 0) {
+    view.removeAttribute("aria-busy");
+  }
+};
+
+const toNode = (content: ViewContent): Node => {
+  if (typeof content !== "string") return content;
+  const template = document.createElement("template");
+  template.innerHTML = content;
+  return template.content;
+};
+
+// A fetched `src`: the HTML, or the imported module
+type ViewSource = string | ViewModule;
+
+interface Prefetched {
+  pending: Promise<ViewSource>;
+  controller: AbortController;
+  expires: number;
+}
+
+// Sources fetched by Router.prefetch(), taken by the next load. The
+// oldest go first past PREFETCH_LIMIT; none is kept past PREFETCH_TTL ms.
+const PREFETCHED = new Map<string, Prefetched>();
+const PREFETCH_LIMIT = 8;
+const PREFETCH_TTL = 30_000;
+
+// Fetch an HTML fragment, or import a module (`.js`/`.mjs`)
+const fetchSource = async (
+  src: string,
+  signal?: AbortSignal
+): Promise<ViewSource> => {
+  if (/\.m?js([?#]|$)/.test(src)) {
+    return (await import(/* @vite-ignore */ src)) as ViewModule;
+  }
+
+  const response = await fetch(src, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${src}: ${response.status}`);
+  }
+  return response.text();
+};
+
+const dropPrefetch = (src: string): void => {
+  PREFETCHED.get(src)?.controller.abort();
+  PREFETCHED.delete(src);
+};
+
+const prefetchSource = (src: string): void => {
+  const now = Date.now();
+  for (const [key, entry] of PREFETCHED) {
+    if (entry.expires <= now) dropPrefetch(key);
+  }
+  if (PREFETCHED.has(src)) return;
+  for (const key of [...PREFETCHED.keys()]) {
+    if (PREFETCHED.size < PREFETCH_LIMIT) break;
+    dropPrefetch(key);
+  }
+
+  const controller = new AbortController();
+  const entry: Prefetched = {
+    pending: fetchSource(src, controller.signal),
+    controller,
+    expires: now + PREFETCH_TTL,
+  };
+  PREFETCHED.set(src, entry);
+  // A failed prefetch is left to the real load to retry and report
+  entry.pending.catch(() => {
+    if (PREFETCHED.get(src) === entry) PREFETCHED.delete(src);
+  });
+};
+
+// The prefetched source if still fresh, else a new fetch; `signal`
+// aborts either
+const takeSource = (src: string, signal: AbortSignal): Promise<ViewSource> => {
+  const entry = PREFETCHED.get(src);
+  PREFETCHED.delete(src);
+  if (!entry || entry.expires <= Date.now()) {
+    entry?.controller.abort();
+    return fetchSource(src, signal);
+  }
+  signal.addEventListener("abort", () => entry.controller.abort(), {
+    once: true,
+  });
+  return entry.pending;
+};
+
+// Render a `src`: the HTML, or the module's default export
+const loadContent = async (
+  src: string,
+  view: ViewElement,
+  signal: AbortSignal
+): Promise<Node> => {
+  const source = await takeSource(src, signal);
+  if (typeof source === "string") return toNode(source);
+  const content = source.default;
+  return toNode(typeof content === "function" ? await content(view) : content);
+};
+
+// Each view's full pattern as registered with the router
+const ROUTES = new Map<ViewElement, { key: string; remove: () => void }>();
+
+// Each view's closest enclosing view, and the views inside each layout
+// (its outlet). Kept current as views connect and disconnect.
+const PARENTS = new WeakMap<ViewElement, ViewElement | null>();
+const OUTLETS = new WeakMap<ViewElement, Set<ViewElement>>();
+
+// Closest enclosing view; a nested view's path continues the parent's
+const findParentView = (view: ViewElement): ViewElement | null => {
+  let parent = view.parentElement?.closest(view.localName);
+  while (parent && !VIEWS.has(parent as ViewElement)) {
+    parent = parent.parentElement?.closest(view.localName);
+  }
+  return (parent as ViewElement | null | undefined) ?? null;
+};
+
+const getParentView = (view: ViewElement): ViewElement | null =>
+  PARENTS.get(view) ?? null;
+
+// Record the view in its parent's outlet; returns whether that changed
+const linkView = (view: ViewElement): boolean => {
+  const parent = findParentView(view);
+  if (PARENTS.has(view) && PARENTS.get(view) === parent) return false;
+
+  unlinkView(view);
+  PARENTS.set(view, parent);
+  if (parent) {
+    const outlet = OUTLETS.get(parent) ?? new Set<ViewElement>();
+    OUTLETS.set(parent, outlet.add(view));
+  }
+  return true;
+};
+
+const unlinkView = (view: ViewElement): void => {
+  const parent = PARENTS.get(view);
+  if (parent) OUTLETS.get(parent)?.delete(view);
+  PARENTS.delete(view);
+};
+
+// The view's path joined onto its ancestors' (`/settings` + `:tab`)
+const getFullPattern = (view: ViewElement): string => {
+  const parent = getParentView(view);
+  if (!parent) return view.path;
+
+  const base = getFullPattern(parent).replace(/\/+$/, "");
+  const own = view.path.replace(/^\/+/, "");
+  return own ? `${base}/${own}` : base;
+};
+
+// A view with views inside is a layout: it stays active for every path
+// below its own so its children can match the rest
+const isLayout = (view: ViewElement): boolean =>
+  (OUTLETS.get(view)?.size ?? 0) > 0;
+
+// Params of the view's own pattern against the current path, or null
+// (use getPath() to compare only the path portion, ignoring query strings)
+const matchPattern = (view: ViewElement): RouteParams | null =>
+  Router.match(getFullPattern(view), Router.getPath(), matchOptions(view));
+
+// Params of the view's match, or null. A view only matches while its
+// parent does, and the views inside a layout are its outlet: only the
+// most specific of the matching ones (`profile` over `:tab`) is shown.
+const matchView = (view: ViewElement): RouteParams | null => {
+  const parent = getParentView(view);
+  if (parent && !matchView(parent)) return null;
+
+  const params = matchPattern(view);
+  if (!params || !parent) return params;
+
+  const score = routeScore(getFullPattern(view));
+  for (const other of OUTLETS.get(parent) ?? []) {
+    if (other === view) continue;
+    if (routeScore(getFullPattern(other)) > score && matchPattern(other)) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// aria-busy while the view's loader runs, then its data or error
+const handleLoad = (view: ViewElement, state: RouteLoadState): void => {
+  setBusy(view, "data", state.busy);
+  if (state.busy) view.removeAttribute("error");
+
+  if ("data" in state) {
+    view.data = state.data;
+    view.dispatchEvent(
+      new CustomEvent("view-load", {
+        detail: { data: state.data, params: view.params },
+        bubbles: true,
+      })
+    );
+  } else if ("error" in state) {
+    view.setAttribute("error", "");
+    view.dispatchEvent(
+      new CustomEvent("view-error", {
+        detail: { error: state.error },
+        bubbles: true,
+      })
+    );
+  }
+};
+
+// Keep the router's route for this view current (RouteInfo.params, the
+// view's guard and loader)
+const registerRoute = (view: ViewElement): void => {
+  const pattern = getFullPattern(view);
+  const options = matchOptions(view);
+  const key = `${options.strict}:${options.sensitive}:${options.layout}:${pattern}`;
+
+  const current = ROUTES.get(view);
+  if (current?.key === key) return;
+  current?.remove();
+
+  const remove = Router.addRoute(pattern, {
+    ...options,
+    // Sibling views inside a layout compete, as in matchView()
+    outlet: getParentView(view) ?? undefined,
+    // Read on every navigation: the properties may change at any time
+    before: (context) => view.guard?.(context),
+    load: (context) => view.load?.(context),
+    onLoad: (state) => handleLoad(view, state),
+    prefetch: () => PREFETCH.get(view)?.(),
+  });
+  ROUTES.set(view, { key, remove });
+};
+
+// A view's pattern is part of every pattern inside it
+const registerRoutes = (view: ViewElement): void => {
+  registerRoute(view);
+  OUTLETS.get(view)?.forEach(registerRoutes);
+};
+
+const unregisterRoute = (view: ViewElement): void => {
+  ROUTES.get(view)?.remove();
+  ROUTES.delete(view);
+};
+
+// Per-view options; unset ones use the router's strict/sensitive settings
+const matchOptions = (view: ViewElement): RouteOptions => ({
+  strict: view.strict || undefined,
+  sensitive: view.sensitive || undefined,
+  layout: isLayout(view),
+});
+
+const sameParams = (a: RouteParams, b: RouteParams): boolean => {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
 };
 
 // Global route change handler - updates all views
@@ -31,23 +324,29 @@ const handleGlobalRouteChange = (): void => {
 
 // Update a single view's visibility based on current route
 const updateViewVisibility = (view: ViewElement, forceUpdate = false): void => {
-  // Use getPath() to compare only the path portion, ignoring query strings
-  const currentPath = Router.getPath();
-  const normalizedRoute = normalizePath(currentPath);
-  const normalizedPath = normalizePath(view.path);
+  const params = matchView(view);
+  const shouldBeActive = params !== null;
+  const paramsChanged = !sameParams(view.params ?? {}, params ?? {});
+  view.params = params ?? {};
 
-  const shouldBeActive = normalizedRoute === normalizedPath;
-
-  if (forceUpdate || view.active !== shouldBeActive) {
+  if (forceUpdate || view.active !== shouldBeActive || paramsChanged) {
+    if (forceUpdate || view.active !== shouldBeActive) {
+      ACTIVATE.get(view)?.(shouldBeActive);
+    }
     view.active = shouldBeActive;
     view.hidden = !shouldBeActive;
     view.style.display = shouldBeActive ? "block" : "none";
 
-    // Dispatch visibility change event (only if not initial setup)
+    // Dispatch visibility change event (only if not initial setup);
+    // an active view also gets one when only its params change
     if (!forceUpdate) {
       view.dispatchEvent(
         new CustomEvent("view-change", {
-          detail: { active: shouldBeActive, path: view.path },
+          detail: {
+            active: shouldBeActive,
+            path: view.path,
+            params: view.params,
+          },
           bubbles: true,
         })
       );
@@ -70,17 +369,34 @@ defineComponent({
 
   styles: `
     w-view { display: block; }
+    w-view > w-slot:is([loading], [error]) { display: none; }
+    w-view[aria-busy="true"] > w-slot[loading],
+    w-view[error] > w-slot[error] { display: contents; }
   `,
 
   props: [
     { name: "path", type: String, default: "" },
     { name: "label", type: String, default: "" },
     { name: "active", type: Boolean, default: false },
+    { name: "strict", type: Boolean, default: false },
+    { name: "sensitive", type: Boolean, default: false },
+    { name: "src", type: String, default: "" },
+    { name: "discard", type: Boolean, default: false },
   ],
 
   // No default role - views are structural containers
   // If label is provided, we'll add role="region" with aria-label
 
+  emits: {
+    "view-change": detail<{
+      active: boolean;
+      path: string;
+      params: RouteParams;
+    }>(),
+    "view-load": detail<{ data: unknown; params: RouteParams }>(),
+    "view-error": detail<{ error: unknown }>(),
+  },
+
   setup(ctx) {
     const el = ctx.element as unknown as ViewElement;
     el.mode = Router.settings.hash ? "hash" : "path";
@@ -92,12 +408,132 @@ defineComponent({
       el.setAttribute("aria-label", el.label);
     }
 
-    // Register this view
+    // Register this view in its parent's outlet; views already inside
+    // (connected before this one) move into this view's outlet
     VIEWS.add(el);
+    linkView(el);
+    el.querySelectorAll<ViewElement>(el.localName).forEach((view) => {
+      if (VIEWS.has(view)) linkView(view);
+    });
     setupGlobalListeners();
 
-    // Initial visibility check (force update to ensure correct initial state)
+    // Lazy content (`src`) and the discard-on-leave policy. The loading
+    // and error slots stay in place; everything else is content.
+    let loadedSrc: string | null = null;
+    let loadedNodes: Node[] = [];
+    let stash: DocumentFragment | null = null;
+    let loading: AbortController | null = null;
+    let prefetched: string | null = null;
+
+    const isContent = (node: Node): boolean =>
+      !(
+        node instanceof Element &&
+        node.matches("w-slot[loading], w-slot[error]")
+      );
+
+    const loadSrc = (): void => {
+      const src = el.src;
+      if (!src || src === loadedSrc) return;
+      loadedSrc = src;
+      // The load takes over the prefetch
+      if (prefetched === src) prefetched = null;
+
+      loading?.abort();
+      loading = new AbortController();
+      const { signal } = loading;
+
+      setBusy(el, "content", true);
+      el.removeAttribute("error");
+
+      loadContent(src, el, signal)
+        .then((content) => {
+          if (signal.aborted) return;
+          // A new src replaces what the previous one rendered
+          for (const node of loadedNodes) node.parentNode?.removeChild(node);
+          loadedNodes = [
+            ...(content instanceof DocumentFragment
+              ? content.childNodes
+              : [content]),
+          ];
+          el.append(content);
+        })
+        .catch((error: unknown) => {
+          if (signal.aborted) return;
+          // Try again on the next activation
+          loadedSrc = null;
+          el.setAttribute("error", "");
+          el.dispatchEvent(
+            new CustomEvent("view-error", {
+              detail: { error },
+              bubbles: true,
+            })
+          );
+        })
+        .finally(() => {
+          if (signal.aborted) return;
+          loading = null;
+          setBusy(el, "content", false);
+        });
+    };
+
+    ACTIVATE.set(el, (active) => {
+      if (active) {
+        if (stash) {
+          el.append(stash);
+          stash = null;
+        }
+        loadSrc();
+      } else if (el.discard) {
+        // Detached components tear down; they set up again when the view
+        // comes back
+        stash = document.createDocumentFragment();
+        stash.append(...[...el.childNodes].filter(isContent));
+      }
+    });
+
+    PREFETCH.set(el, () => {
+      if (!el.src || el.src === loadedSrc) return;
+      prefetched = el.src;
+      prefetchSource(prefetched);
+    });
+
+    // Cancel a prefetch the view no longer needs
+    const cancelPrefetch = (): void => {
+      if (prefetched) dropPrefetch(prefetched);
+      prefetched = null;
+    };
+
+    ctx.watch("src", () => {
+      if (prefetched !== el.src) cancelPrefetch();
+      if (el.active) loadSrc();
+    });
+
+    // A parent that just became a layout may match now
+    const parent = getParentView(el);
+    if (parent) {
+      registerRoute(parent);
+      updateViewVisibility(parent);
+    }
+
+    // Register the pattern for RouteInfo.params, then the initial
+    // visibility check (force update to ensure correct initial state)
+    registerRoutes(el);
     updateViewVisibility(el, true);
+    OUTLETS.get(el)?.forEach((view) => updateViewVisibility(view));
+
+    // `load` may have been assigned before the element upgraded; setting
+    // it while the view is active runs it right away
+    let loader = el.load;
+    delete el.load;
+    Object.defineProperty(el, "load", {
+      get: () => loader,
+      set: (fn: RouteLoader | undefined) => {
+        loader = fn;
+        if (fn && el.active) Router.reload(getFullPattern(el));
+      },
+      configurable: true,
+    });
+    if (loader && el.active) Router.reload(getFullPattern(el));
 
     // Method to programmatically navigate to this view
     Object.assign(ctx.element, {
@@ -106,7 +542,7 @@ defineComponent({
        */
       navigate(): void {
         // Use Router.navigate - it handles hash/path mode internally
-        Router.navigate(el.path);
+        Router.navigate(getFullPattern(el));
       },
 
       /**
@@ -116,6 +552,13 @@ defineComponent({
         return el.active;
       },
 
+      /**
+       * Run the view's loader again
+       */
+      reload(): void {
+        Router.reload(getFullPattern(el));
+      },
+
       /**
        * Force refresh visibility state
        */
@@ -124,38 +567,69 @@ defineComponent({
       },
     });
 
-    // Watch for attribute changes
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (
-          mutation.attributeName === "path" ||
-          mutation.attributeName === "mode" ||
-          mutation.attributeName === "base"
-        ) {
-          updateViewVisibility(el);
-        }
-        if (mutation.attributeName === "active") {
-          el.hidden = !el.active;
-          el.style.display = el.active ? "block" : "none";
-        }
-        if (mutation.attributeName === "label") {
-          if (el.label) {
-            el.setAttribute("role", "region");
-            el.setAttribute("aria-label", el.label);
-          } else {
-            el.removeAttribute("role");
-            el.removeAttribute("aria-label");
-          }
-        }
+    // A move keeps the view set up: follow its new parent, whose path and
+    // outlet it now belongs to
+    ctx.onMove(() => {
+      const previous = getParentView(el);
+      if (!linkView(el)) return;
+
+      unregisterRoute(el);
+      registerRoutes(el);
+      // The old parent may no longer be a layout, the new one may be one
+      for (const view of [previous, getParentView(el)]) {
+        if (view?.isConnected) registerRoute(view);
       }
+      handleGlobalRouteChange();
     });
 
-    observer.observe(ctx.element, { attributes: true });
+    // Watch for attribute changes
+    // (nested views follow a parent's path)
+    ctx.watch(["path", "strict", "sensitive"], () => {
+      registerRoutes(el);
+      handleGlobalRouteChange();
+    });
+
+    ctx.watch("active", () => {
+      el.hidden = !el.active;
+      el.style.display = el.active ? "block" : "none";
+    });
+
+    ctx.watch("label", () => {
+      if (el.label) {
+        el.setAttribute("role", "region");
+        el.setAttribute("aria-label", el.label);
+      } else {
+        el.removeAttribute("role");
+        el.removeAttribute("aria-label");
+      }
+    });
 
     // Cleanup
     ctx.onCleanup(() => {
-      observer.disconnect();
+      loading?.abort();
+      setBusy(el, "content", false);
+      ACTIVATE.delete(el);
+      PREFETCH.delete(el);
+      cancelPrefetch();
       VIEWS.delete(el);
+      unregisterRoute(el);
+
+      // Views left inside (still connected) move to the next view up
+      const enclosing = getParentView(el);
+      const outlet = OUTLETS.get(el) ?? [];
+      unlinkView(el);
+      OUTLETS.delete(el);
+      for (const view of outlet) {
+        if (!view.isConnected || !VIEWS.has(view)) continue;
+        linkView(view);
+        registerRoutes(view);
+        updateViewVisibility(view);
+      }
+
+      if (enclosing?.isConnected) {
+        registerRoute(enclosing);
+        updateViewVisibility(enclosing);
+      }
 
       // Remove global listeners if no more views
       if (VIEWS.size === 0) {
@@ -130,6 +130,20 @@ export const ARIA = {
   roledescription: "aria-roledescription",
 } as const;
 
+// ─────────────────────────────────────────────────────────────
+// Form Validation Messages (mirror the browser's native wording)
+// ─────────────────────────────────────────────────────────────
+
+export const VALIDATION = {
+  selectMissing: "Please select an item in the list.",
+  choiceMissing: "Please select one of these options.",
+  checkMissing: "Please check this box if you want to proceed.",
+  rangeUnderflow: (min: number): string =>
+    `Value must be greater than or equal to ${min}.`,
+  rangeOverflow: (max: number): string =>
+    `Value must be less than or equal to ${max}.`,
+} as const;
+
 // ─────────────────────────────────────────────────────────────
 // Common CSS for Visually Hidden Elements (Screen Reader Only)
 // ─────────────────────────────────────────────────────────────
@@ -155,6 +169,27 @@ export const BOOL = {
   false: "false",
 } as const;
 
+// ─────────────────────────────────────────────────────────────
+// Allowed Prop Values
+// ─────────────────────────────────────────────────────────────
+
+export const ORIENTATION = ["horizontal", "vertical"] as const;
+
+export const PLACEMENT = [
+  "top",
+  "top-start",
+  "top-end",
+  "bottom",
+  "bottom-start",
+  "bottom-end",
+  "left",
+  "left-start",
+  "left-end",
+  "right",
+  "right-start",
+  "right-end",
+] as const;
+
 // ─────────────────────────────────────────────────────────────
 // ID Prefix
 // ─────────────────────────────────────────────────────────────
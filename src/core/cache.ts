@@ -2,12 +2,18 @@
  * Cache - Unified caching for DOM queries, dimensions, and computed values
  *
  * WeakMap-based caching with automatic garbage collection.
- * Time-based invalidation for volatile data.
+ * Observer-driven invalidation: a cached query lives until a mutation in
+ * its container could change the result, a cached rect until the element
+ * resizes or the page scrolls, resizes or mutates. Pending mutation
+ * records are drained on every lookup, so a query made right after a DOM
+ * change in the same task never sees a stale result.
  */
 
 interface CacheOptions {
   maxAge?: number;
   key?: string;
+  /** Most keys kept per memo object; the least recently used go first */
+  maxSize?: number;
 }
 
 interface CachedValue<T> {
@@ -15,6 +21,17 @@ interface CachedValue<T> {
   time: number;
 }
 
+interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+interface CacheStats {
+  dimensions: CacheCounter;
+  query: CacheCounter;
+  memo: CacheCounter;
+}
+
 interface DimensionCache {
   get(el: HTMLElement): DOMRect;
   invalidate(el: HTMLElement): void;
@@ -34,23 +51,65 @@ interface CacheInstance {
   query: QueryCache;
   memo<T>(key: object, fn: () => T, options?: CacheOptions): T;
   viewport: { width: number; height: number };
+  /** Hit/miss counters since creation or the last resetStats() */
+  stats(): CacheStats;
+  resetStats(): void;
   clear(): void;
 }
 
-const DEFAULT_MAX_AGE = 100; // 100ms TTL
+interface CachedRect {
+  value: DOMRect;
+  layout: number;
+}
+
+interface ContainerQueries {
+  entries: Map<string, unknown>;
+  observer: MutationObserver;
+  // Attributes the cached selectors depend on
+  attributes: Set<string>;
+  generation: number;
+}
+
+const DEFAULT_MAX_AGE = 100; // memo TTL
+const DEFAULT_MAX_SIZE = 32; // memo keys per object
+
+// Attribute names a selector matches on: [name], .class, #id
+const ATTRIBUTE_SELECTOR = /\[\s*([^\s~|^$*=\]]+)/g;
+
+const selectorAttributes = (selector: string): string[] => {
+  const names = Array.from(selector.matchAll(ATTRIBUTE_SELECTOR), (m) => m[1]);
+  if (selector.includes('.')) names.push('class');
+  if (selector.includes('#')) names.push('id');
+  return names;
+};
+
+const createCounter = (): CacheCounter => ({ hits: 0, misses: 0 });
 
 const createCache = (): CacheInstance => {
-  // Dimension cache with TTL
-  const dimensionCache = new WeakMap<HTMLElement, CachedValue<DOMRect>>();
+  const hasWindow = typeof window !== 'undefined';
+
+  // Dimension cache, valid while its layout version is current
+  const dimensionCache = new WeakMap<HTMLElement, CachedRect>();
 
   // Query cache: container -> selector -> result
-  const queryCache = new WeakMap<Element, Map<string, CachedValue<unknown>>>();
+  const queryCache = new WeakMap<Element, ContainerQueries>();
 
   // Generic memo cache
   const memoCache = new WeakMap<object, Map<string, CachedValue<unknown>>>();
 
-  // Viewport cache
-  let viewportCache: { width: number; height: number; time: number } | null = null;
+  // Viewport cache, refreshed by resize events
+  let viewportCache = { width: 0, height: 0 };
+
+  // Bumped by anything that can move elements: scroll, resize, mutations
+  let layout = 0;
+  // Bumped by clear() to drop every query at once
+  let generation = 0;
+
+  let stats: CacheStats = {
+    dimensions: createCounter(),
+    query: createCounter(),
+    memo: createCounter(),
+  };
 
   const now = (): number => performance.now();
 
@@ -58,30 +117,85 @@ const createCache = (): CacheInstance => {
     return now() - cached.time > maxAge;
   };
 
+  const invalidateLayout = (): void => {
+    layout++;
+  };
+
   // Update viewport cache on resize
   const updateViewport = (): void => {
     viewportCache = {
       width: window.innerWidth,
       height: window.innerHeight,
-      time: now(),
     };
   };
 
+  // Size changes of cached elements (fonts, images, content)
+  const resizeObserver =
+    hasWindow && typeof ResizeObserver !== 'undefined'
+      ? new ResizeObserver((entries) => {
+          for (const entry of entries) {
+            dimensionCache.delete(entry.target as HTMLElement);
+            resizeObserver!.unobserve(entry.target);
+          }
+        })
+      : null;
+
+  // Any DOM change may shift positions elsewhere in the page
+  const layoutObserver =
+    hasWindow && typeof MutationObserver !== 'undefined'
+      ? new MutationObserver(invalidateLayout)
+      : null;
+  let observingLayout = false;
+
+  const syncLayout = (): void => {
+    if (!layoutObserver) {
+      // No observer: fall back to never reusing a rect
+      invalidateLayout();
+      return;
+    }
+    if (!observingLayout) {
+      layoutObserver.observe(document.documentElement, {
+        subtree: true,
+        childList: true,
+        attributes: true,
+        characterData: true,
+      });
+      observingLayout = true;
+    }
+    if (layoutObserver.takeRecords().length > 0) invalidateLayout();
+  };
+
   // Initialize viewport and listen for resize
-  if (typeof window !== 'undefined') {
+  if (hasWindow) {
     updateViewport();
-    window.addEventListener('resize', updateViewport, { passive: true });
+    window.addEventListener(
+      'resize',
+      () => {
+        updateViewport();
+        invalidateLayout();
+      },
+      { passive: true }
+    );
+    window.addEventListener('scroll', invalidateLayout, {
+      passive: true,
+      capture: true,
+    });
   }
 
   const dimensions: DimensionCache = {
     get(el: HTMLElement): DOMRect {
+      syncLayout();
+
       const cached = dimensionCache.get(el);
-      if (cached && !isExpired(cached, DEFAULT_MAX_AGE)) {
+      if (cached && cached.layout === layout) {
+        stats.dimensions.hits++;
         return cached.value;
       }
 
+      stats.dimensions.misses++;
       const rect = el.getBoundingClientRect();
-      dimensionCache.set(el, { value: rect, time: now() });
+      dimensionCache.set(el, { value: rect, layout });
+      resizeObserver?.observe(el);
       return rect;
     },
 
@@ -90,46 +204,84 @@ const createCache = (): CacheInstance => {
     },
 
     invalidateAll(): void {
-      // WeakMap doesn't support clear, so we create a new one
-      // This is handled by the outer clear() function
+      invalidateLayout();
     },
   };
 
-  const query: QueryCache = {
-    one<T extends Element>(container: Element, selector: string): T | null {
-      const containerCache = queryCache.get(container);
-      const key = `one:${selector}`;
+  const dropQueries = (container: Element): void => {
+    const state = queryCache.get(container);
+    if (!state) return;
+    state.observer.disconnect();
+    queryCache.delete(container);
+  };
 
-      if (containerCache) {
-        const cached = containerCache.get(key);
-        if (cached && !isExpired(cached, DEFAULT_MAX_AGE)) {
-          return cached.value as T | null;
-        }
-      }
+  const observeQueries = (state: ContainerQueries, container: Element): void => {
+    // Re-observing the same node replaces the previous options
+    state.observer.observe(container, {
+      subtree: true,
+      childList: true,
+      attributeFilter: [...state.attributes],
+    });
+  };
 
-      const result = container.querySelector<T>(selector);
-      const cache = containerCache ?? new Map();
-      cache.set(key, { value: result, time: now() });
-      queryCache.set(container, cache);
-      return result;
+  /**
+   * Cached lookup: drains pending mutations of the container first and
+   * starts observing it on the first miss.
+   */
+  const lookup = <T>(
+    container: Element,
+    key: string,
+    selector: string,
+    run: () => T
+  ): T => {
+    let state = queryCache.get(container);
+    const stale =
+      state &&
+      (state.generation !== generation ||
+        state.observer.takeRecords().length > 0);
+
+    if (stale) {
+      dropQueries(container);
+      state = undefined;
+    }
+
+    if (state?.entries.has(key)) {
+      stats.query.hits++;
+      return state.entries.get(key) as T;
+    }
+
+    stats.query.misses++;
+    const result = run();
+
+    if (typeof MutationObserver === 'undefined') return result;
+
+    if (!state) {
+      const observer = new MutationObserver(() => dropQueries(container));
+      state = { entries: new Map(), observer, attributes: new Set(), generation };
+      queryCache.set(container, state);
+    }
+
+    const size = state.attributes.size;
+    for (const name of selectorAttributes(selector)) state.attributes.add(name);
+    if (state.entries.size === 0 || state.attributes.size !== size) {
+      observeQueries(state, container);
+    }
+
+    state.entries.set(key, result);
+    return result;
+  };
+
+  const query: QueryCache = {
+    one<T extends Element>(container: Element, selector: string): T | null {
+      return lookup(container, `one:${selector}`, selector, () =>
+        container.querySelector<T>(selector)
+      );
     },
 
     all<T extends Element>(container: Element, selector: string): T[] {
-      const containerCache = queryCache.get(container);
-      const key = `all:${selector}`;
-
-      if (containerCache) {
-        const cached = containerCache.get(key);
-        if (cached && !isExpired(cached, DEFAULT_MAX_AGE)) {
-          return cached.value as T[];
-        }
-      }
-
-      const result = Array.from(container.querySelectorAll<T>(selector));
-      const cache = containerCache ?? new Map();
-      cache.set(key, { value: result, time: now() });
-      queryCache.set(container, cache);
-      return result;
+      return lookup(container, `all:${selector}`, selector, () =>
+        Array.from(container.querySelectorAll<T>(selector))
+      );
     },
 
     children<T extends Element>(container: Element, slot?: string): T[] {
@@ -138,11 +290,11 @@ const createCache = (): CacheInstance => {
     },
 
     invalidate(container: Element): void {
-      queryCache.delete(container);
+      dropQueries(container);
     },
 
     invalidateAll(): void {
-      // Handled by outer clear()
+      generation++;
     },
   };
 
@@ -151,38 +303,65 @@ const createCache = (): CacheInstance => {
     query,
 
     memo<T>(key: object, fn: () => T, options: CacheOptions = {}): T {
-      const { maxAge = DEFAULT_MAX_AGE, key: cacheKey = 'default' } = options;
+      const {
+        maxAge = DEFAULT_MAX_AGE,
+        key: cacheKey = 'default',
+        maxSize = DEFAULT_MAX_SIZE,
+      } = options;
 
       const objectCache = memoCache.get(key);
       if (objectCache) {
         const cached = objectCache.get(cacheKey);
         if (cached && !isExpired(cached, maxAge)) {
+          stats.memo.hits++;
+          // Move to the back so eviction drops the least recently used
+          objectCache.delete(cacheKey);
+          objectCache.set(cacheKey, cached);
           return cached.value as T;
         }
       }
 
+      stats.memo.misses++;
       const result = fn();
       const cache = objectCache ?? new Map();
+      cache.delete(cacheKey);
       cache.set(cacheKey, { value: result, time: now() });
+      while (cache.size > maxSize) {
+        cache.delete(cache.keys().next().value!);
+      }
       memoCache.set(key, cache);
       return result;
     },
 
     get viewport(): { width: number; height: number } {
-      if (!viewportCache || isExpired({ value: null, time: viewportCache.time }, 16)) {
-        updateViewport();
-      }
-      return { width: viewportCache!.width, height: viewportCache!.height };
+      return { ...viewportCache };
+    },
+
+    stats(): CacheStats {
+      return {
+        dimensions: { ...stats.dimensions },
+        query: { ...stats.query },
+        memo: { ...stats.memo },
+      };
+    },
+
+    resetStats(): void {
+      stats = {
+        dimensions: createCounter(),
+        query: createCounter(),
+        memo: createCounter(),
+      };
     },
 
     clear(): void {
-      // WeakMaps auto-clear when keys are GC'd
-      // For immediate clear, we'd need to track keys
-      viewportCache = null;
-      updateViewport();
+      // WeakMaps can't be iterated; versions make every entry stale instead.
+      // Memo entries still expire by maxAge.
+      invalidateLayout();
+      generation++;
+      if (hasWindow) updateViewport();
     },
   };
 };
 
 export const cache = createCache();
-export type { CacheInstance, CacheOptions };
+export type { CacheInstance, CacheOptions, CacheStats, CacheCounter };
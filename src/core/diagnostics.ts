@@ -0,0 +1,104 @@
+/**
+ * Diagnostics - Error reporting for component lifecycles
+ *
+ * Errors caught by the factory, state, event scopes and the scheduler are
+ * passed to report() instead of only being logged. Each error is attributed
+ * to the component that owns the failing code: state, effects, event scopes
+ * and scheduler tasks remember the component that was running when they
+ * were created.
+ */
+
+type ErrorPhase =
+  | 'setup'
+  | 'cleanup'
+  | 'watch'
+  | 'event'
+  | 'form'
+  | 'move'
+  | 'subscriber'
+  | 'effect'
+  | 'scheduler-read'
+  | 'scheduler-write'
+  | 'load'
+  | 'guard';
+
+interface ErrorInfo {
+  phase: ErrorPhase;
+  /** Tag of the owning component, null for code outside components */
+  tag: string | null;
+  element: HTMLElement | null;
+}
+
+type ErrorHandler = (error: unknown, info: ErrorInfo) => void;
+
+interface ErrorOwner {
+  tag: string;
+  element: HTMLElement;
+  /** Component-level handler (the schema's onError), called first */
+  onError?: ErrorHandler;
+}
+
+const handlers = new Set<ErrorHandler>();
+
+let owner: ErrorOwner | null = null;
+
+/**
+ * Register a handler for every reported error. While any handler is
+ * registered, errors are no longer logged to the console.
+ *
+ * @returns Unregister function
+ */
+export function onError(handler: ErrorHandler): () => void {
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+}
+
+/** Component running right now, captured by code that runs later */
+export function getOwner(): ErrorOwner | null {
+  return owner;
+}
+
+/**
+ * Run `fn` with `next` as the owner of everything it creates
+ */
+export function runWithOwner<T>(next: ErrorOwner | null, fn: () => T): T {
+  const prev = owner;
+  owner = next;
+  try {
+    return fn();
+  } finally {
+    owner = prev;
+  }
+}
+
+/**
+ * Report an error caught in `phase`, attributed to `source` (default: the
+ * running component). A throwing handler is logged and never rethrown.
+ */
+export function report(error: unknown, phase: ErrorPhase, source: ErrorOwner | null = owner): void {
+  const info: ErrorInfo = {
+    phase,
+    tag: source?.tag ?? null,
+    element: source?.element ?? null,
+  };
+
+  const call = (handler: ErrorHandler): void => {
+    try {
+      handler(error, info);
+    } catch (e) {
+      console.error('[Diagnostics] Error handler failed:', e);
+    }
+  };
+
+  if (source?.onError) call(source.onError);
+
+  if (handlers.size === 0) {
+    console.error(`[${info.tag ?? 'waria'}] ${phase} error:`, error);
+    return;
+  }
+  for (const handler of [...handlers]) call(handler);
+}
+
+export type { ErrorHandler, ErrorInfo, ErrorOwner, ErrorPhase };
@@ -3,8 +3,18 @@
  *
  * Single delegated listener per event type.
  * Selector-based routing with automatic cleanup.
+ * Content teleported out of the root gets the same listeners, so
+ * delegation follows it into the portal.
+ *
+ * Key bindings map combos like `ArrowDown`, `Mod+K` or `Shift+F10` to
+ * handlers. `Mod` is Meta on Apple platforms and Ctrl elsewhere. Keys
+ * pressed while an IME is composing are ignored. Each element can remap
+ * its keys through a `keymap` attribute or setKeymap().
  */
 
+import { getOwner, report, runWithOwner } from './diagnostics';
+import { getLogicalParent, getTeleported, matchesLogically, observeTeleports } from './logical';
+
 type EventHandler<E extends Event = Event> = (event: E, target: HTMLElement) => void;
 
 interface EventBindingOptions {
@@ -21,6 +31,25 @@ interface EventBinding<E extends Event = Event> {
   options?: EventBindingOptions;
 }
 
+type KeyHandler = (event: KeyboardEvent, target: HTMLElement) => void | boolean;
+
+/** Combo -> handler. A handler returning false leaves the key unhandled */
+type KeyBindings = Record<string, KeyHandler>;
+
+interface KeyBindingOptions {
+  /** Only handle keys whose target matches (default: the whole element) */
+  selector?: string;
+  /** Ignore keys fired inside the matched element, e.g. from a nested input */
+  self?: boolean;
+  /** Call preventDefault() on handled keys (default true) */
+  prevent?: boolean;
+  stop?: boolean;
+  capture?: boolean;
+}
+
+/** Pressed combo -> bound combo it acts as, or null to disable it */
+type Keymap = Record<string, string | null>;
+
 interface EventScope {
   on<E extends Event = Event>(
     event: string,
@@ -34,6 +63,7 @@ interface EventScope {
   ): () => void;
   off(event: string, selector?: string): void;
   emit<T>(event: string, detail?: T, options?: CustomEventInit): boolean;
+  keys(bindings: KeyBindings, options?: KeyBindingOptions): () => void;
   destroy(): void;
 }
 
@@ -52,8 +82,151 @@ interface DelegatedListener {
 
 let bindingIdCounter = 0;
 
+// ─────────────────────────────────────────────────────────────
+// Key Combos
+// ─────────────────────────────────────────────────────────────
+
+// Modifiers in the order normalized combos list them
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIERS)[number]> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  space: 'Space',
+  esc: 'Escape',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+};
+
+// keyCode reported for keys an IME is still processing
+const IME_KEY_CODE = 229;
+
+const keymaps = new WeakMap<HTMLElement, Keymap>();
+
+const isApple = (): boolean => {
+  if (typeof navigator === 'undefined') return false;
+  const nav = navigator as Navigator & { userAgentData?: { platform: string } };
+  return /mac|iphone|ipad|ipod/i.test(nav.userAgentData?.platform ?? nav.platform);
+};
+
+const normalizeKey = (key: string): string => {
+  const alias = KEY_ALIASES[key.toLowerCase()] ?? KEY_ALIASES[key];
+  if (alias) return alias;
+  return key.length === 1 ? key.toLowerCase() : key;
+};
+
+/**
+ * Normalize a combo string: `mod+shift+k` -> `Shift+Meta+k` on a Mac,
+ * `Ctrl+Shift+k` elsewhere. A trailing `+` is the plus key itself.
+ */
+const normalizeCombo = (combo: string): string => {
+  const parts = combo.endsWith('++')
+    ? [...combo.slice(0, -2).split('+'), '+']
+    : combo.split('+');
+  const key = normalizeKey(parts.pop()!.trim());
+  const mods = new Set<string>();
+
+  for (const part of parts) {
+    const name = part.trim().toLowerCase();
+    if (name === 'mod') {
+      mods.add(isApple() ? 'Meta' : 'Ctrl');
+    } else if (MODIFIER_ALIASES[name]) {
+      mods.add(MODIFIER_ALIASES[name]);
+    } else {
+      console.warn(`[Events] Unknown modifier "${part}" in "${combo}"`);
+    }
+  }
+
+  return [...MODIFIERS.filter((mod) => mods.has(mod)), key].join('+');
+};
+
+/**
+ * Combos a keyboard event can match, most specific first. Shift is
+ * optional for symbols, since it is already part of the character
+ * (`*` is Shift+8 on most layouts).
+ */
+const eventCombos = (event: KeyboardEvent): string[] => {
+  const key = normalizeKey(event.key);
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey,
+  };
+  const combo = (skipShift: boolean): string =>
+    [
+      ...MODIFIERS.filter((mod) => pressed[mod] && !(skipShift && mod === 'Shift')),
+      key,
+    ].join('+');
+
+  const combos = [combo(false)];
+  const symbol = event.key.length === 1 && event.key.toLowerCase() === event.key.toUpperCase();
+  if (event.shiftKey && symbol) combos.push(combo(true));
+  return combos;
+};
+
+/**
+ * Parse a `keymap` attribute: whitespace-separated `from:to` pairs,
+ * where `to` is empty or `none` to disable the key.
+ * Example: `keymap="j:ArrowDown k:ArrowUp Home:none"`.
+ */
+const parseKeymap = (value: string): Keymap => {
+  const keymap: Keymap = {};
+  for (const pair of value.trim().split(/\s+/)) {
+    const index = pair.lastIndexOf(':');
+    if (index <= 0) continue;
+    const to = pair.slice(index + 1);
+    keymap[pair.slice(0, index)] = to && to !== 'none' ? to : null;
+  }
+  return keymap;
+};
+
+/** Normalized keymap of an element: the attribute, then setKeymap() */
+const resolveKeymap = (element: HTMLElement): Map<string, string | null> => {
+  const attribute = element.getAttribute('keymap');
+  const merged = {
+    ...(attribute ? parseKeymap(attribute) : {}),
+    ...keymaps.get(element),
+  };
+  const resolved = new Map<string, string | null>();
+  for (const [from, to] of Object.entries(merged)) {
+    resolved.set(normalizeCombo(from), to === null ? null : normalizeCombo(to));
+  }
+  return resolved;
+};
+
+/**
+ * Remap the keys of one element, on top of its `keymap` attribute.
+ * Pass null to remove the overrides.
+ *
+ * @example
+ * setKeymap(tree, { j: 'ArrowDown', k: 'ArrowUp' });
+ */
+export function setKeymap(element: HTMLElement, keymap: Keymap | null): void {
+  if (keymap) {
+    keymaps.set(element, keymap);
+  } else {
+    keymaps.delete(element);
+  }
+}
+
 export function createEventScope(root: HTMLElement): EventScope {
+  const owner = getOwner();
   const listeners = new Map<string, DelegatedListener>();
+  // Teleported content listened to as well
+  const teleported = new Set<HTMLElement>();
   let destroyed = false;
 
   const getEventKey = (event: string, capture: boolean): string => {
@@ -80,6 +253,18 @@ export function createEventScope(root: HTMLElement): EventScope {
     return null;
   };
 
+  // Same as matchesSelector, for targets inside teleported content
+  const matchesTeleported = (element: Element, selector: string): HTMLElement | null => {
+    let current: Element | null = element;
+    while (current && current !== root.parentElement) {
+      if (current instanceof HTMLElement && (selector === '*' || matchesLogically(current, selector, root))) {
+        return current;
+      }
+      current = getLogicalParent(current);
+    }
+    return null;
+  };
+
   const createDelegatedListener = (eventType: string, capture: boolean): DelegatedListener => {
     const bindings = new Map<number, DelegatedBinding>();
 
@@ -89,9 +274,16 @@ export function createEventScope(root: HTMLElement): EventScope {
       const target = event.target as Element | null;
       if (!target) return;
 
+      // Listeners on teleported content stand in for the root's: skip
+      // events an inner scope on the same content already stopped
+      const inPortal = event.currentTarget !== root;
+      if (inPortal && event.cancelBubble) return;
+
       // Process bindings in order
       for (const binding of bindings.values()) {
-        const matchedTarget = matchesSelector(target, binding.selector, root);
+        const matchedTarget = inPortal
+          ? matchesTeleported(target, binding.selector)
+          : matchesSelector(target, binding.selector, root);
         if (matchedTarget) {
           const { options } = binding;
 
@@ -103,9 +295,9 @@ export function createEventScope(root: HTMLElement): EventScope {
           }
 
           try {
-            binding.handler(event, matchedTarget);
+            runWithOwner(owner, () => binding.handler(event, matchedTarget));
           } catch (e) {
-            console.error('[Events] Handler error:', e);
+            report(e, 'event', owner);
           }
 
           if (options.once) {
@@ -115,14 +307,47 @@ export function createEventScope(root: HTMLElement): EventScope {
       }
     };
 
-    root.addEventListener(eventType, listener, {
-      capture,
-      passive: false, // We may need to prevent default
-    });
+    for (const target of [root, ...teleported]) {
+      target.addEventListener(eventType, listener, {
+        capture,
+        passive: false, // We may need to prevent default
+      });
+    }
 
     return { bindings, listener, capture };
   };
 
+  const eventTypeOf = (key: string): string => key.slice(0, key.lastIndexOf(':'));
+
+  const attachTeleported = (element: HTMLElement): void => {
+    if (teleported.has(element)) return;
+    teleported.add(element);
+    for (const [key, delegated] of listeners) {
+      element.addEventListener(eventTypeOf(key), delegated.listener, {
+        capture: delegated.capture,
+        passive: false,
+      });
+    }
+  };
+
+  const detachTeleported = (element: HTMLElement): void => {
+    if (!teleported.delete(element)) return;
+    for (const [key, delegated] of listeners) {
+      element.removeEventListener(eventTypeOf(key), delegated.listener, {
+        capture: delegated.capture,
+      });
+    }
+  };
+
+  getTeleported(root).forEach(attachTeleported);
+  const stopObserving = observeTeleports(root, (element, added) => {
+    if (added) {
+      attachTeleported(element);
+    } else {
+      detachTeleported(element);
+    }
+  });
+
   const ensureListener = (eventType: string, capture: boolean): DelegatedListener => {
     const key = getEventKey(eventType, capture);
     let delegated = listeners.get(key);
@@ -204,13 +429,45 @@ export function createEventScope(root: HTMLElement): EventScope {
       return root.dispatchEvent(customEvent);
     },
 
+    keys(bindings: KeyBindings, options: KeyBindingOptions = {}): () => void {
+      const { selector = ':scope', self = false, prevent = true, stop = false, capture = false } = options;
+
+      const handlers = new Map<string, KeyHandler>();
+      for (const [combo, handler] of Object.entries(bindings)) {
+        handlers.set(normalizeCombo(combo), handler);
+      }
+
+      const handleKey = (event: KeyboardEvent, target: HTMLElement): void => {
+        if (event.isComposing || event.keyCode === IME_KEY_CODE) return;
+        if (self && event.target !== target) return;
+
+        const keymap = resolveKeymap(root);
+        for (const pressed of eventCombos(event)) {
+          const combo = keymap.has(pressed) ? keymap.get(pressed) : pressed;
+          if (combo === null) return;
+
+          const handler = handlers.get(combo!);
+          if (!handler) continue;
+
+          if (handler(event, target) === false) return;
+          if (prevent) event.preventDefault();
+          if (stop) event.stopPropagation();
+          return;
+        }
+      };
+
+      return this.on<KeyboardEvent>('keydown', selector, handleKey, { capture });
+    },
+
     destroy(): void {
       if (destroyed) return;
       destroyed = true;
 
+      stopObserving();
+      teleported.forEach(detachTeleported);
+
       for (const [key, delegated] of listeners) {
-        const [eventType] = key.split(':');
-        root.removeEventListener(eventType, delegated.listener, {
+        root.removeEventListener(eventTypeOf(key), delegated.listener, {
           capture: delegated.capture,
         });
         delegated.bindings.clear();
@@ -221,4 +478,13 @@ export function createEventScope(root: HTMLElement): EventScope {
   };
 }
 
-export type { EventScope, EventBinding, EventBindingOptions, EventHandler };
+export type {
+  EventScope,
+  EventBinding,
+  EventBindingOptions,
+  EventHandler,
+  KeyBindings,
+  KeyBindingOptions,
+  KeyHandler,
+  Keymap,
+};
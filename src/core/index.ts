@@ -5,21 +5,47 @@
  */
 
 export { scheduler } from './scheduler';
-export type { SchedulerInstance } from './scheduler';
+export type { SchedulerInstance, TaskOptions, TaskPriority } from './scheduler';
 
 export { cache } from './cache';
-export type { CacheInstance, CacheOptions } from './cache';
+export type { CacheInstance, CacheOptions, CacheStats, CacheCounter } from './cache';
 
-export { createEventScope } from './events';
-export type { EventScope, EventBinding, EventBindingOptions, EventHandler } from './events';
+export { createEventScope, setKeymap } from './events';
+export type {
+  EventScope,
+  EventBinding,
+  EventBindingOptions,
+  EventHandler,
+  KeyBindings,
+  KeyBindingOptions,
+  KeyHandler,
+  Keymap,
+} from './events';
 
-export { createState, createDerived } from './state';
-export type { State, StateConfig, StateSubscriber, StateUpdater } from './state';
+export { createState, createDerived, signal, computed, effect, batch, untrack } from './state';
+export type {
+  State,
+  StateConfig,
+  StateSubscriber,
+  StateUpdater,
+  Signal,
+  Computed,
+  SignalOptions,
+  EffectFn,
+} from './state';
 
 export { createTransition } from './transitions';
-export type { Transition, TransitionConfig, TransitionState } from './transitions';
+export type { Transition, TransitionConfig, TransitionKeyframes, TransitionState } from './transitions';
 
 export { observeAttributes, onAttributeChange } from './observe';
 export type { AttributeObserverConfig } from './observe';
 
 export { forwardClasses } from './forward-class';
+
+export { getLogicalParent, logicalContains } from './logical';
+
+export { matchRoute } from './routes';
+export type { RouteParams, RouteMatchOptions } from './routes';
+
+export { onError } from './diagnostics';
+export type { ErrorHandler, ErrorInfo, ErrorPhase } from './diagnostics';
@@ -0,0 +1,198 @@
+/**
+ * Logical Tree - Where teleported elements belong
+ *
+ * Teleporting moves an element into the portal container, out of the
+ * component it belongs to. The element keeps its original parent as its
+ * logical parent, so event scopes and queries can treat it as if it had
+ * never moved. Selectors are matched against the logical tree: content
+ * teleported out of `w-slot[body]` still matches `w-slot[body] > *`.
+ */
+
+type TeleportListener = (element: HTMLElement, teleported: boolean) => void;
+
+interface TeleportObserver {
+  root: Element;
+  listener: TeleportListener;
+}
+
+// Teleported elements and the parent each one was moved out of
+const logicalParents = new Map<HTMLElement, Element>();
+
+const observers = new Set<TeleportObserver>();
+
+// Characters that can separate two compound selectors
+const COMBINATOR = /[\s>+~]/;
+
+export function getLogicalParent(element: Element): Element | null {
+  return (element instanceof HTMLElement && logicalParents.get(element)) || element.parentElement;
+}
+
+/**
+ * Whether `node` is `root` or inside it, following teleported elements
+ * back to where they came from
+ */
+export function logicalContains(root: Element, node: Node | null): boolean {
+  let current = node instanceof Element ? node : (node?.parentElement ?? null);
+  while (current) {
+    if (current === root) return true;
+    current = getLogicalParent(current);
+  }
+  return false;
+}
+
+const logicalDepth = (element: Element): number => {
+  let depth = 0;
+  for (let current = getLogicalParent(element); current; current = getLogicalParent(current)) {
+    depth++;
+  }
+  return depth;
+};
+
+/**
+ * Record (or clear, with null) where a teleported element belongs.
+ * Observers are told innermost root first, matching bubbling order.
+ */
+export function setLogicalParent(element: HTMLElement, parent: Element | null): void {
+  if (parent) {
+    logicalParents.set(element, parent);
+  } else if (!logicalParents.delete(element)) {
+    return;
+  }
+
+  const interested = [...observers]
+    .filter((observer) => !parent || logicalContains(observer.root, parent))
+    .sort((a, b) => logicalDepth(b.root) - logicalDepth(a.root));
+
+  for (const observer of interested) observer.listener(element, parent !== null);
+}
+
+/**
+ * Elements teleported out of `root` (or out of content teleported from it)
+ */
+export function getTeleported(root: Element): HTMLElement[] {
+  return [...logicalParents].filter(([, parent]) => logicalContains(root, parent)).map(([element]) => element);
+}
+
+/**
+ * Call `listener` when an element is teleported out of `root`, and for
+ * every element returned from the portal (the listener checks whether it
+ * knew it).
+ */
+export function observeTeleports(root: Element, listener: TeleportListener): () => void {
+  const observer: TeleportObserver = { root, listener };
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+/**
+ * Split a selector at top-level characters `isSeparator` accepts, skipping
+ * anything inside brackets, parentheses or quotes. Each part comes with
+ * the index of the separator after it.
+ */
+const splitTopLevel = (selector: string, isSeparator: (ch: string) => boolean): Array<[string, number]> => {
+  const parts: Array<[string, number]> = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '(') {
+      depth++;
+    } else if (ch === ']' || ch === ')') {
+      depth--;
+    } else if (depth === 0 && isSeparator(ch)) {
+      parts.push([selector.slice(start, i), i]);
+      start = i + 1;
+    }
+  }
+  parts.push([selector.slice(start), selector.length]);
+  return parts;
+};
+
+/**
+ * Split off the last compound selector: `w-slot[body] > *` becomes
+ * `{ head: 'w-slot[body]', combinator: '>', last: '*' }`
+ */
+const splitLast = (selector: string): { head: string; combinator: string; last: string } | null => {
+  const parts = splitTopLevel(selector, (ch) => COMBINATOR.test(ch));
+  if (parts.length === 1) return null;
+
+  // The last part is the compound; everything before the run of
+  // combinator characters in front of it is the head
+  const [, end] = parts[parts.length - 2];
+  let start = end;
+  while (start > 0 && COMBINATOR.test(selector[start - 1])) start--;
+
+  return {
+    head: selector.slice(0, start),
+    combinator: selector.slice(start, end + 1).trim() || ' ',
+    last: selector.slice(end + 1),
+  };
+};
+
+// `:scope` in a compound means the scope element itself
+const matchesCompound = (element: Element, compound: string, scope: Element): boolean =>
+  compound.includes(':scope')
+    ? element === scope && element.matches(compound.replaceAll(':scope', '*'))
+    : element.matches(compound);
+
+const matchesComplex = (element: Element, selector: string, scope: Element): boolean => {
+  const parts = splitLast(selector);
+  if (!parts) return matchesCompound(element, selector, scope);
+
+  const { head, combinator, last } = parts;
+  if (!matchesCompound(element, last, scope)) return false;
+
+  if (combinator === '>') {
+    const parent = getLogicalParent(element);
+    return parent !== null && matchesComplex(parent, head, scope);
+  }
+  if (combinator === ' ') {
+    for (let ancestor = getLogicalParent(element); ancestor; ancestor = getLogicalParent(ancestor)) {
+      if (matchesComplex(ancestor, head, scope)) return true;
+    }
+    return false;
+  }
+
+  // Sibling combinators don't reach across a portal
+  return element.matches(selector);
+};
+
+/**
+ * element.matches() against the logical tree; `:scope` is `scope`
+ */
+export function matchesLogically(element: Element, selector: string, scope: Element): boolean {
+  return splitTopLevel(selector.trim(), (ch) => ch === ',').some(([part]) =>
+    matchesComplex(element, part.trim(), scope)
+  );
+}
+
+/**
+ * Elements matching `selector` inside content teleported out of `root`
+ * (the part of a logical query that root.querySelectorAll() misses)
+ */
+export function queryTeleported<E extends Element = Element>(root: Element, selector: string): E[] {
+  if (logicalParents.size === 0) return [];
+
+  const lasts = splitTopLevel(selector.trim(), (ch) => ch === ',').map(
+    ([part]) => splitLast(part.trim())?.last ?? part.trim()
+  );
+  const candidates = lasts.some((last) => last.includes(':scope')) ? '*' : lasts.join(',');
+
+  const results: E[] = [];
+  for (const element of getTeleported(root)) {
+    for (const candidate of [element, ...element.querySelectorAll(candidates)]) {
+      if (matchesLogically(candidate, selector, root)) results.push(candidate as E);
+    }
+  }
+  return results;
+}
+
+export type { TeleportListener };
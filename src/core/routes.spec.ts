@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { matchRoute, routeScore } from './routes';
+
+describe('matchRoute', () => {
+  it('matches static segments', () => {
+    expect(matchRoute('/about', '/about')).toEqual({});
+    expect(matchRoute('/about', '/contact')).toBeNull();
+    expect(matchRoute('/about', '/about/team')).toBeNull();
+  });
+
+  it('captures named params, URI-decoded', () => {
+    expect(matchRoute('/users/:id', '/users/42')).toEqual({ id: '42' });
+    expect(matchRoute('/tags/:name', '/tags/a%20b')).toEqual({ name: 'a b' });
+    expect(matchRoute('/users/:id', '/users')).toBeNull();
+  });
+
+  it('allows optional segments to be left out', () => {
+    expect(matchRoute('/settings/:tab?', '/settings')).toEqual({});
+    expect(matchRoute('/settings/:tab?', '/settings/profile')).toEqual({ tab: 'profile' });
+    expect(matchRoute('/posts/drafts?', '/posts')).toEqual({});
+    expect(matchRoute('/posts/drafts?', '/posts/drafts')).toEqual({});
+  });
+
+  it('matches the rest of the path with a wildcard', () => {
+    expect(matchRoute('/files/*', '/files/a/b.txt')).toEqual({ '*': 'a/b.txt' });
+    expect(matchRoute('/files/*path', '/files/a/b.txt')).toEqual({ path: 'a/b.txt' });
+    expect(matchRoute('/files/*', '/files')).toEqual({});
+  });
+
+  it('accepts paths and patterns without a leading slash or with a hash', () => {
+    expect(matchRoute('#/users/:id', 'users/7')).toEqual({ id: '7' });
+  });
+
+  it('ignores case and a trailing slash by default', () => {
+    expect(matchRoute('/About', '/about/')).toEqual({});
+  });
+
+  it('compares case with sensitive', () => {
+    expect(matchRoute('/About', '/about', { sensitive: true })).toBeNull();
+    expect(matchRoute('/About', '/About', { sensitive: true })).toEqual({});
+  });
+
+  it('requires the trailing slash to match with strict', () => {
+    expect(matchRoute('/about', '/about/', { strict: true })).toBeNull();
+    expect(matchRoute('/about/', '/about', { strict: true })).toBeNull();
+    expect(matchRoute('/about/', '/about/', { strict: true })).toEqual({});
+  });
+
+  it('matches the root with strict', () => {
+    expect(matchRoute('/', '/', { strict: true })).toEqual({});
+    expect(matchRoute('/', '', { strict: true })).toEqual({});
+    expect(matchRoute('/', '/about', { strict: true })).toBeNull();
+  });
+});
+
+describe('routeScore', () => {
+  it('ranks static segments over params over optional segments and wildcards', () => {
+    expect(routeScore('/users/new')).toBeGreaterThan(routeScore('/users/:id'));
+    expect(routeScore('/users/:id')).toBeGreaterThan(routeScore('/users/:id?'));
+    expect(routeScore('/users/:id?')).toBeGreaterThan(routeScore('/users/*'));
+  });
+});
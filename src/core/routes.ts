@@ -0,0 +1,120 @@
+/**
+ * Routes - Path patterns with named params and wildcards
+ *
+ * Pattern syntax, one segment at a time:
+ * - `users`: matches the segment literally
+ * - `:id`: matches any one segment as the `id` param
+ * - `:tab?` (or `drafts?`): the segment may be left out
+ * - `*` or `*rest`: matches the rest of the path (possibly nothing) as the
+ *   `*` (or `rest`) param; only allowed last
+ *
+ * Matching ignores case and a trailing slash unless `sensitive` or
+ * `strict` is set. Param values are URI-decoded.
+ */
+
+type RouteParams = Record<string, string>;
+
+interface RouteMatchOptions {
+  /** A trailing slash must match too (`/about/` is not `/about`) */
+  strict?: boolean;
+  /** Segments are compared case-sensitively */
+  sensitive?: boolean;
+}
+
+interface CompiledRoute {
+  regex: RegExp;
+  names: string[];
+  // Ranks more specific patterns first when several match
+  score: number;
+}
+
+const compiled = new Map<string, CompiledRoute>();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const compile = (pattern: string, { strict = false, sensitive = false }: RouteMatchOptions): CompiledRoute => {
+  const key = `${strict ? 's' : ''}${sensitive ? 'c' : ''}:${pattern}`;
+  const cached = compiled.get(key);
+  if (cached) return cached;
+
+  const path = pattern.replace(/^[#/]+/, '');
+  const segments = path.split('/').filter(Boolean);
+  // The root is a lone slash, which strict matching must keep
+  const trailingSlash = strict && (path.endsWith('/') || segments.length === 0);
+
+  const names: string[] = [];
+  let source = '';
+  let score = 0;
+
+  segments.forEach((segment, index) => {
+    if (segment.startsWith('*')) {
+      if (index !== segments.length - 1) {
+        console.warn(`[Routes] "*" must be the last segment of "${pattern}"`);
+      }
+      names.push(segment.slice(1) || '*');
+      source += '(?:/(.*))?';
+      return;
+    }
+
+    const optional = segment.endsWith('?');
+    const body = optional ? segment.slice(0, -1) : segment;
+
+    if (body.startsWith(':')) {
+      names.push(body.slice(1));
+      source += optional ? '(?:/([^/]+))?' : '/([^/]+)';
+      score += optional ? 1 : 2;
+    } else {
+      source += optional ? `(?:/${escapeRegExp(body)})?` : `/${escapeRegExp(body)}`;
+      score += optional ? 1 : 3;
+    }
+  });
+
+  const end = trailingSlash ? '/' : strict ? '' : '/?';
+  const route: CompiledRoute = {
+    regex: new RegExp(`^${source}${end}$`, sensitive ? '' : 'i'),
+    names,
+    score,
+  };
+  compiled.set(key, route);
+  return route;
+};
+
+/**
+ * Match `path` against `pattern`; returns the params, or null when the
+ * path doesn't match
+ *
+ * @example
+ * matchRoute('/users/:id', '/users/42'); // { id: '42' }
+ * matchRoute('/files/*', '/files/a/b.txt'); // { '*': 'a/b.txt' }
+ */
+export function matchRoute(pattern: string, path: string, options: RouteMatchOptions = {}): RouteParams | null {
+  const { regex, names } = compile(pattern, options);
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+  const match = regex.exec(normalized);
+  if (!match) return null;
+
+  const params: RouteParams = {};
+  names.forEach((name, index) => {
+    const value = match[index + 1];
+    if (value !== undefined) params[name] = decode(value);
+  });
+  return params;
+}
+
+/**
+ * How specific a pattern is: static segments outrank params, which
+ * outrank optional segments and wildcards
+ */
+export function routeScore(pattern: string): number {
+  return compile(pattern, {}).score;
+}
+
+export type { RouteParams, RouteMatchOptions };
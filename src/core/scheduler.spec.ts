@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { scheduler } from './scheduler';
+
+afterEach(() => {
+  scheduler.setSyncMode(false);
+  scheduler.flush();
+});
+
+describe('scheduler', () => {
+  it('runs every read before any write in a frame', () => {
+    const log: string[] = [];
+    scheduler.write(() => log.push('write 1'));
+    void scheduler.read(() => log.push('read 1'));
+    scheduler.write(() => log.push('write 2'));
+    void scheduler.read(() => log.push('read 2'));
+
+    expect(log).toEqual([]);
+    scheduler.flush();
+    expect(log).toEqual(['read 1', 'read 2', 'write 1', 'write 2']);
+  });
+
+  it('runs the user-blocking lane before the normal one', () => {
+    const log: string[] = [];
+    scheduler.write(() => log.push('normal'));
+    scheduler.write(() => log.push('user-blocking'), { priority: 'user-blocking' });
+
+    scheduler.flush();
+    expect(log).toEqual(['user-blocking', 'normal']);
+  });
+
+  it('resolves read() with the value read', async () => {
+    const value = scheduler.read(() => 42);
+    scheduler.flush();
+    await expect(value).resolves.toBe(42);
+  });
+
+  it('defers a read queued by a write to the next frame', () => {
+    const log: string[] = [];
+    scheduler.write(() => {
+      log.push('write');
+      void scheduler.read(() => log.push('read'));
+    });
+
+    scheduler.flush();
+    expect(log).toEqual(['write']);
+    scheduler.flush();
+    expect(log).toEqual(['write', 'read']);
+  });
+
+  it('writes the measured value in the same frame', () => {
+    const log: string[] = [];
+    scheduler.measure(
+      () => 10,
+      (value) => log.push(`write ${value}`)
+    );
+
+    scheduler.flush();
+    expect(log).toEqual(['write 10']);
+  });
+
+  it('drops cancelled tasks', () => {
+    const log: string[] = [];
+    const cancel = scheduler.write(() => log.push('write'));
+    cancel();
+
+    scheduler.flush();
+    expect(log).toEqual([]);
+  });
+
+  it('rejects a read whose signal aborts', async () => {
+    const controller = new AbortController();
+    const value = scheduler.read(() => 1, { signal: controller.signal });
+    controller.abort('gone');
+
+    await expect(value).rejects.toBe('gone');
+    scheduler.flush();
+  });
+
+  it('runs tasks as they are queued in sync mode', () => {
+    const log: string[] = [];
+    scheduler.setSyncMode(true);
+    scheduler.write(() => log.push('write'));
+    expect(log).toEqual(['write']);
+  });
+
+  it('settles once queued tasks and the tasks they queue have run', async () => {
+    let settled = false;
+    scheduler.write(() => {
+      scheduler.write(() => {});
+    });
+    const done = scheduler.settled().then(() => {
+      settled = true;
+    });
+
+    scheduler.flush();
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    scheduler.flush();
+    await done;
+    expect(settled).toBe(true);
+  });
+});
@@ -3,60 +3,195 @@
  *
  * Batches DOM reads and writes to prevent layout thrashing.
  * All operations execute in RAF callbacks for smooth animations.
+ *
+ * Tasks run by priority lane: `user-blocking` before `normal` within a
+ * frame, `idle` when the browser has spare time. Each frame runs every
+ * read before any write. A read queued by a write waits for the next
+ * frame, so a write can never force a synchronous layout in the same one.
  */
 
+import { getOwner, report, runWithOwner, type ErrorOwner } from './diagnostics';
+
 type ReadCallback<T> = () => T;
 type WriteCallback = () => void;
+type CancelFn = () => void;
+
+type TaskPriority = 'user-blocking' | 'normal' | 'idle';
+
+interface TaskOptions {
+  /** Lane to run in (default `normal`) */
+  priority?: TaskPriority;
+  /** Aborting drops the task; a pending read() rejects with the reason */
+  signal?: AbortSignal;
+}
 
 interface SchedulerInstance {
-  read<T>(fn: ReadCallback<T>): Promise<T>;
-  write(fn: WriteCallback): void;
-  measure<T>(read: ReadCallback<T>, write: (value: T) => void): void;
-  nextFrame(fn: () => void): () => void;
-  idle(fn: () => void, timeout?: number): () => void;
+  read<T>(fn: ReadCallback<T>, options?: TaskOptions): Promise<T>;
+  write(fn: WriteCallback, options?: TaskOptions): CancelFn;
+  measure<T>(read: ReadCallback<T>, write: (value: T) => void, options?: TaskOptions): CancelFn;
+  nextFrame(fn: () => void): CancelFn;
+  idle(fn: () => void, timeout?: number): CancelFn;
   flush(): void;
+  setSyncMode(enabled: boolean): void;
+  settled(element?: Element): Promise<void>;
+}
+
+interface Task {
+  run: () => void;
+  done: boolean;
+  // Component that queued the task; it runs as that component again
+  owner: ErrorOwner | null;
 }
 
-interface ReadTask<T> {
-  fn: ReadCallback<T>;
-  resolve: (value: T) => void;
+interface SettleWaiter {
+  element: Element | undefined;
+  resolve: () => void;
 }
 
+interface Lane {
+  reads: Task[];
+  writes: Task[];
+}
+
+// Frame lanes in execution order
+const FRAME_LANES: TaskPriority[] = ['user-blocking', 'normal'];
+
+// Upper bound for how long idle work may wait
+const IDLE_TIMEOUT = 1000;
+
+const requestIdle = (fn: () => void, timeout: number): CancelFn => {
+  if ('requestIdleCallback' in window) {
+    const id = requestIdleCallback(fn, { timeout });
+    return () => cancelIdleCallback(id);
+  }
+  const id = setTimeout(fn, timeout);
+  return () => clearTimeout(id);
+};
+
+const runTasks = (tasks: Task[], phase: 'scheduler-read' | 'scheduler-write'): void => {
+  for (const task of tasks) {
+    if (task.done) continue;
+    task.done = true;
+    try {
+      runWithOwner(task.owner, task.run);
+    } catch (e) {
+      report(e, phase, task.owner);
+    }
+  }
+};
+
 const createScheduler = (): SchedulerInstance => {
-  const reads: Array<ReadTask<unknown>> = [];
-  const writes: WriteCallback[] = [];
-  let scheduled = false;
+  const lanes: Record<TaskPriority, Lane> = {
+    'user-blocking': { reads: [], writes: [] },
+    normal: { reads: [], writes: [] },
+    idle: { reads: [], writes: [] },
+  };
   let rafId: number | null = null;
+  let cancelIdle: CancelFn | null = null;
+  let syncMode = false;
+
+  // Tasks queued and not yet run, cancelled or aborted
+  const queued = new Set<Task>();
+  const waiters = new Set<SettleWaiter>();
+
+  const isPending = (element?: Element): boolean => {
+    for (const task of queued) {
+      if (!element || task.owner?.element === element) return true;
+    }
+    return false;
+  };
+
+  const finish = (task: Task): void => {
+    if (!queued.delete(task)) return;
+    for (const waiter of [...waiters]) {
+      if (isPending(waiter.element)) continue;
+      waiters.delete(waiter);
+      waiter.resolve();
+    }
+  };
 
-  const flush = (): void => {
-    scheduled = false;
+  const flushFrame = (): void => {
     rafId = null;
 
-    // Execute all reads first (measure phase)
-    const currentReads = reads.splice(0);
-    for (const { fn, resolve } of currentReads) {
-      try {
-        resolve(fn());
-      } catch (e) {
-        console.error('[Scheduler] Read error:', e);
-      }
+    // Take the queues up front: reads queued from here on (by a read or a
+    // write) land in the next frame. Writes queued by a read still run in
+    // this frame's write phase, which is what measure() relies on.
+    for (const priority of FRAME_LANES) {
+      runTasks(lanes[priority].reads.splice(0), 'scheduler-read');
     }
+    const writes = FRAME_LANES.map((priority) => lanes[priority].writes.splice(0));
+    for (const batch of writes) {
+      runTasks(batch, 'scheduler-write');
+    }
+  };
 
-    // Then execute all writes (mutate phase)
-    const currentWrites = writes.splice(0);
-    for (const write of currentWrites) {
-      try {
-        write();
-      } catch (e) {
-        console.error('[Scheduler] Write error:', e);
-      }
+  const flushIdle = (): void => {
+    cancelIdle = null;
+    runTasks(lanes.idle.reads.splice(0), 'scheduler-read');
+    runTasks(lanes.idle.writes.splice(0), 'scheduler-write');
+  };
+
+  const schedule = (priority: TaskPriority): void => {
+    if (priority === 'idle') {
+      cancelIdle ??= requestIdle(flushIdle, IDLE_TIMEOUT);
+    } else {
+      rafId ??= requestAnimationFrame(flushFrame);
     }
   };
 
-  const schedule = (): void => {
-    if (scheduled) return;
-    scheduled = true;
-    rafId = requestAnimationFrame(flush);
+  /**
+   * Queue a task; returns a cancel function. Aborting `signal` cancels
+   * the task and calls `onAbort` if it hadn't run yet.
+   */
+  const enqueue = (
+    kind: keyof Lane,
+    run: () => void,
+    options: TaskOptions,
+    onAbort?: (reason: unknown) => void
+  ): CancelFn => {
+    const { priority = 'normal', signal } = options;
+
+    if (signal?.aborted) {
+      onAbort?.(signal.reason);
+      return () => {};
+    }
+
+    const handleAbort = (): void => {
+      if (task.done) return;
+      task.done = true;
+      finish(task);
+      onAbort?.(signal!.reason);
+    };
+
+    const task: Task = {
+      run: () => {
+        signal?.removeEventListener('abort', handleAbort);
+        // Tasks queued by run() are pending before this one finishes
+        try {
+          run();
+        } finally {
+          finish(task);
+        }
+      },
+      done: false,
+      owner: getOwner(),
+    };
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    queued.add(task);
+
+    if (syncMode) {
+      runTasks([task], kind === 'reads' ? 'scheduler-read' : 'scheduler-write');
+    } else {
+      lanes[priority][kind].push(task);
+      schedule(priority);
+    }
+
+    return () => {
+      task.done = true;
+      signal?.removeEventListener('abort', handleAbort);
+      finish(task);
+    };
   };
 
   return {
@@ -64,35 +199,55 @@ const createScheduler = (): SchedulerInstance => {
      * Schedule a DOM read operation.
      * Returns a promise that resolves with the read value.
      */
-    read<T>(fn: ReadCallback<T>): Promise<T> {
-      return new Promise((resolve) => {
-        reads.push({ fn, resolve } as ReadTask<unknown>);
-        schedule();
+    read<T>(fn: ReadCallback<T>, options: TaskOptions = {}): Promise<T> {
+      return new Promise((resolve, reject) => {
+        enqueue('reads', () => resolve(fn()), options, reject);
       });
     },
 
     /**
      * Schedule a DOM write operation.
      * Writes are batched and executed after all reads.
+     * Returns a function that cancels the write if it hasn't run yet.
      */
-    write(fn: WriteCallback): void {
-      writes.push(fn);
-      schedule();
+    write(fn: WriteCallback, options: TaskOptions = {}): CancelFn {
+      return enqueue('writes', fn, options);
     },
 
     /**
      * Combined read-then-write operation.
-     * Reads in the read phase, then writes in the write phase.
+     * Reads in the read phase, then writes in the same frame's write phase.
+     * Returns a function that cancels whichever half is still pending.
      */
-    measure<T>(read: ReadCallback<T>, write: (value: T) => void): void {
-      this.read(read).then(write);
+    measure<T>(
+      read: ReadCallback<T>,
+      write: (value: T) => void,
+      options: TaskOptions = {}
+    ): CancelFn {
+      let cancelWrite: CancelFn | null = null;
+      const cancelRead = enqueue(
+        'reads',
+        () => {
+          const value = read();
+          cancelWrite = enqueue('writes', () => write(value), options);
+        },
+        options
+      );
+      return () => {
+        cancelRead();
+        cancelWrite?.();
+      };
     },
 
     /**
      * Schedule callback for next animation frame.
      * Returns a cleanup function to cancel.
      */
-    nextFrame(fn: () => void): () => void {
+    nextFrame(fn: () => void): CancelFn {
+      if (syncMode) {
+        fn();
+        return () => {};
+      }
       const id = requestAnimationFrame(fn);
       return () => cancelAnimationFrame(id);
     },
@@ -101,27 +256,48 @@ const createScheduler = (): SchedulerInstance => {
      * Schedule callback for browser idle time.
      * Falls back to setTimeout if requestIdleCallback unavailable.
      */
-    idle(fn: () => void, timeout = 1000): () => void {
-      if ('requestIdleCallback' in window) {
-        const id = requestIdleCallback(fn, { timeout });
-        return () => cancelIdleCallback(id);
+    idle(fn: () => void, timeout = IDLE_TIMEOUT): CancelFn {
+      if (syncMode) {
+        fn();
+        return () => {};
       }
-      const id = setTimeout(fn, timeout);
-      return () => clearTimeout(id);
+      return requestIdle(fn, timeout);
     },
 
     /**
-     * Immediately flush all pending operations.
+     * Immediately flush all pending operations, idle lane included.
      * Useful for testing or forcing immediate updates.
      */
     flush(): void {
       if (rafId !== null) {
         cancelAnimationFrame(rafId);
       }
-      flush();
+      cancelIdle?.();
+      flushFrame();
+      flushIdle();
+    },
+
+    /**
+     * Run every task synchronously at the moment it is queued, for
+     * deterministic unit tests. Enabling it flushes pending work first.
+     */
+    setSyncMode(enabled: boolean): void {
+      if (enabled && !syncMode) this.flush();
+      syncMode = enabled;
+    },
+
+    /**
+     * Resolves once no task queued by `element` (or, without one, no task
+     * at all) is pending, including tasks those tasks queue.
+     */
+    settled(element?: Element): Promise<void> {
+      if (!isPending(element)) return Promise.resolve();
+      return new Promise((resolve) => {
+        waiters.add({ element, resolve });
+      });
     },
   };
 };
 
 export const scheduler = createScheduler();
-export type { SchedulerInstance };
+export type { SchedulerInstance, TaskOptions, TaskPriority };
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import { batch, computed, createDerived, createState, effect, signal, untrack } from './state';
+
+describe('signals', () => {
+  it('re-runs an effect when a signal it read changes', () => {
+    const count = signal(1);
+    const seen: number[] = [];
+    effect(() => {
+      seen.push(count.get());
+    });
+
+    count.set(2);
+    count.set((prev) => prev + 1);
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it('skips writes equal to the current value', () => {
+    const count = signal(1);
+    const run = vi.fn(() => {
+      count.get();
+    });
+    effect(run);
+
+    count.set(1);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('never shows an effect a half-updated graph', () => {
+    const first = signal('Ada');
+    const last = signal('Lovelace');
+    const full = computed(() => `${first.get()} ${last.get()}`);
+    const initials = computed(() => `${first.get()[0]}${last.get()[0]}`);
+    const seen: string[] = [];
+    effect(() => {
+      seen.push(`${full.get()} (${initials.get()})`);
+    });
+
+    batch(() => {
+      first.set('Grace');
+      last.set('Hopper');
+    });
+    expect(seen).toEqual(['Ada Lovelace (AL)', 'Grace Hopper (GH)']);
+  });
+
+  it('recomputes a computed only when read after a change', () => {
+    const count = signal(1);
+    const fn = vi.fn(() => count.get() * 2);
+    const double = computed(fn);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(double.get()).toBe(2);
+    expect(double.get()).toBe(2);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    count.set(5);
+    expect(double.get()).toBe(10);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('calls the cleanup before each re-run and on dispose', () => {
+    const count = signal(0);
+    const log: string[] = [];
+    const dispose = effect(() => {
+      const value = count.get();
+      log.push(`run ${value}`);
+      return () => log.push(`cleanup ${value}`);
+    });
+
+    count.set(1);
+    dispose();
+    count.set(2);
+    expect(log).toEqual(['run 0', 'cleanup 0', 'run 1', 'cleanup 1']);
+  });
+
+  it('does not subscribe to reads inside untrack()', () => {
+    const tracked = signal(0);
+    const ignored = signal(0);
+    const run = vi.fn(() => {
+      tracked.get();
+      untrack(() => ignored.get());
+    });
+    effect(run);
+
+    ignored.set(1);
+    expect(run).toHaveBeenCalledTimes(1);
+    tracked.set(1);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createState', () => {
+  it('notifies onChange and subscribers with the previous value', () => {
+    const onChange = vi.fn();
+    const state = createState({ initial: 1, onChange });
+    const subscriber = vi.fn();
+    const unsubscribe = state.subscribe(subscriber);
+
+    state.set(2);
+    expect(onChange).toHaveBeenCalledWith(2, 1);
+    expect(subscriber).toHaveBeenCalledWith(2, 1);
+
+    unsubscribe();
+    state.set(3);
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  it('compares objects shallowly by default', () => {
+    const state = createState({ initial: { open: false, count: 0 } });
+    const subscriber = vi.fn();
+    state.subscribe(subscriber);
+
+    state.set({ open: false, count: 0 });
+    state.update({ count: 0 });
+    expect(subscriber).not.toHaveBeenCalled();
+
+    state.update({ count: 1 });
+    expect(state.get()).toEqual({ open: false, count: 1 });
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  it('initializes lazily on first read', () => {
+    const initial = vi.fn(() => 42);
+    const state = createState({ initial, lazy: true });
+
+    expect(initial).not.toHaveBeenCalled();
+    expect(state.get()).toBe(42);
+    expect(initial).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets to the initial value', () => {
+    const state = createState({ initial: 'a' });
+    state.set('b');
+    state.reset();
+    expect(state.get()).toBe('a');
+  });
+
+  it('re-runs effects that read it', () => {
+    const state = createState({ initial: 1 });
+    const seen: number[] = [];
+    effect(() => {
+      seen.push(state.get());
+    });
+
+    state.set(2);
+    expect(seen).toEqual([1, 2]);
+  });
+});
+
+describe('createDerived', () => {
+  it('derives a value and notifies on change only', () => {
+    const a = createState({ initial: 1 });
+    const b = createState({ initial: 2 });
+    const sum = createDerived([a, b], ([x, y]) => x + y);
+    const subscriber = vi.fn();
+    sum.subscribe(subscriber);
+
+    expect(sum.get()).toBe(3);
+    expect(subscriber).not.toHaveBeenCalled();
+
+    a.set(5);
+    expect(sum.get()).toBe(7);
+    expect(subscriber).toHaveBeenCalledWith(7);
+  });
+});
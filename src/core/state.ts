@@ -3,11 +3,332 @@
  *
  * Reactive state container with change detection.
  * Supports lazy initialization and computed values.
+ *
+ * Built on signals: reading a signal, computed or State inside a computed
+ * or effect subscribes to it automatically. Writes mark dependents stale
+ * and effects re-run once their inputs settle, so an effect never sees a
+ * half-updated graph (glitch-free) and runs once per batch.
  */
 
+import { getOwner, report, runWithOwner, type ErrorOwner } from './diagnostics';
+
 type StateInitializer<T> = T | (() => T);
 type StateUpdater<T> = T | ((prev: T) => T);
 type StateSubscriber<T> = (value: T, prev: T) => void;
+type EqualsFn<T> = (a: T, b: T) => boolean;
+type EffectCleanup = () => void;
+type EffectFn = () => void | EffectCleanup;
+
+interface Signal<T> {
+  /** Current value; subscribes the running computed/effect */
+  get(): T;
+  set(value: StateUpdater<T>): void;
+  /** Current value without subscribing */
+  peek(): T;
+}
+
+interface Computed<T> {
+  get(): T;
+  peek(): T;
+}
+
+interface SignalOptions<T> {
+  equals?: EqualsFn<T>;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Reactive Graph
+// ─────────────────────────────────────────────────────────────
+
+const CLEAN = 0;
+const CHECK = 1; // A source further up may have changed
+const DIRTY = 2; // A direct source changed
+
+interface SourceNode {
+  observers: Set<ComputationNode>;
+}
+
+interface SignalNode<T = unknown> extends SourceNode {
+  value: T;
+  equals: EqualsFn<T>;
+}
+
+interface ComputationNode extends SourceNode {
+  fn: () => unknown;
+  value: unknown;
+  state: number;
+  sources: Set<SourceNode>;
+  equals: EqualsFn<unknown>;
+  effect: boolean;
+  cleanup: EffectCleanup | null;
+  disposed: boolean;
+  // Component that created the effect (null for computeds)
+  owner: ErrorOwner | null;
+  // Global write version the value was computed at
+  version: number;
+}
+
+let observer: ComputationNode | null = null;
+let batchDepth = 0;
+let flushing = false;
+// Bumped on every signal write; unobserved computeds compare against it
+let globalVersion = 0;
+const pendingEffects: ComputationNode[] = [];
+
+const isComputation = (node: SourceNode): node is ComputationNode =>
+  'fn' in node;
+
+// Effects and computeds something depends on keep their sources subscribed
+const isLive = (node: ComputationNode): boolean =>
+  node.effect || node.observers.size > 0;
+
+const addObserver = (source: SourceNode, target: ComputationNode): void => {
+  if (source.observers.has(target)) return;
+  source.observers.add(target);
+
+  if (source.observers.size === 1 && isComputation(source)) {
+    // Computed just became live: subscribe it to its own sources
+    for (const s of source.sources) addObserver(s, source);
+    if (source.version !== globalVersion) source.state = DIRTY;
+  }
+};
+
+const removeObserver = (source: SourceNode, target: ComputationNode): void => {
+  if (!source.observers.delete(target)) return;
+
+  if (source.observers.size === 0 && isComputation(source)) {
+    // Last dependent left: release the sources so nothing pins it
+    for (const s of source.sources) removeObserver(s, source);
+  }
+};
+
+const track = (source: SourceNode): void => {
+  if (!observer || observer.sources.has(source)) return;
+  observer.sources.add(source);
+  if (isLive(observer)) addObserver(source, observer);
+};
+
+// A refreshed source may have flagged the node while walking upstream
+const isDirty = (node: ComputationNode): boolean => node.state === DIRTY;
+
+const markStale = (node: ComputationNode, state: number): void => {
+  if (node.state >= state) return;
+  if (node.state === CLEAN && node.effect) pendingEffects.push(node);
+  node.state = state;
+  for (const obs of node.observers) markStale(obs, CHECK);
+};
+
+const runCleanup = (node: ComputationNode): void => {
+  const cleanup = node.cleanup;
+  node.cleanup = null;
+  if (!cleanup) return;
+  try {
+    cleanup();
+  } catch (e) {
+    report(e, 'cleanup', node.owner);
+  }
+};
+
+const recompute = (node: ComputationNode): void => {
+  const prevSources = node.sources;
+  const prevObserver = observer;
+  const prevValue = node.value;
+
+  if (node.effect) runCleanup(node);
+
+  node.sources = new Set();
+  observer = node;
+  let failed = false;
+  try {
+    // Effects run as the component that created them
+    const result = node.effect ? runWithOwner(node.owner, node.fn) : node.fn();
+    if (node.effect) {
+      node.cleanup = typeof result === 'function' ? (result as EffectCleanup) : null;
+    } else {
+      node.value = result;
+    }
+  } catch (e) {
+    if (!node.effect) {
+      // Retry on the next read instead of caching the failure
+      failed = true;
+      throw e;
+    }
+    report(e, 'effect', node.owner);
+  } finally {
+    observer = prevObserver;
+    node.state = failed ? DIRTY : CLEAN;
+    node.version = globalVersion;
+
+    // Drop sources the last run didn't read
+    if (isLive(node)) {
+      for (const s of prevSources) {
+        if (!node.sources.has(s)) removeObserver(s, node);
+      }
+    }
+  }
+
+  // Dependents only recompute when the value actually changed
+  if (!node.effect && !node.equals(prevValue, node.value)) {
+    for (const obs of node.observers) obs.state = DIRTY;
+  }
+};
+
+const refresh = (node: ComputationNode): void => {
+  if (node.state === CHECK) {
+    for (const source of node.sources) {
+      if (isComputation(source)) refresh(source);
+      if (isDirty(node)) break;
+    }
+  }
+  if (node.state === DIRTY) {
+    recompute(node);
+  } else {
+    node.state = CLEAN;
+  }
+};
+
+const flushEffects = (): void => {
+  if (flushing) return;
+  flushing = true;
+  try {
+    while (pendingEffects.length > 0) {
+      const node = pendingEffects.shift()!;
+      if (!node.disposed) refresh(node);
+    }
+  } finally {
+    flushing = false;
+  }
+};
+
+const readSignal = <T>(node: SignalNode<T>): T => {
+  track(node);
+  return node.value;
+};
+
+const writeSignal = <T>(node: SignalNode<T>, value: T, force = false): void => {
+  if (!force && node.equals(node.value, value)) return;
+  node.value = value;
+  globalVersion++;
+  for (const obs of node.observers) markStale(obs, DIRTY);
+  if (batchDepth === 0) flushEffects();
+};
+
+/**
+ * Create a signal: a value that computeds and effects track when they read it
+ */
+export function signal<T>(initial: T, options: SignalOptions<T> = {}): Signal<T> {
+  const node: SignalNode<T> = {
+    value: initial,
+    equals: options.equals ?? Object.is,
+    observers: new Set(),
+  };
+
+  return {
+    get: () => readSignal(node),
+    peek: () => node.value,
+    set(updater: StateUpdater<T>): void {
+      const next = typeof updater === 'function'
+        ? (updater as (prev: T) => T)(node.value)
+        : updater;
+      writeSignal(node, next);
+    },
+  };
+}
+
+/**
+ * Create a lazily evaluated value derived from the signals it reads.
+ * It recomputes only when read after a dependency changed, and holds no
+ * subscriptions while nothing depends on it.
+ */
+export function computed<T>(fn: () => T, options: SignalOptions<T> = {}): Computed<T> {
+  const node: ComputationNode = {
+    fn,
+    value: undefined,
+    state: DIRTY,
+    sources: new Set(),
+    observers: new Set(),
+    equals: (options.equals ?? Object.is) as EqualsFn<unknown>,
+    effect: false,
+    cleanup: null,
+    disposed: false,
+    owner: null,
+    version: -1,
+  };
+
+  return {
+    get(): T {
+      track(node);
+      if (!isLive(node) && node.version !== globalVersion) node.state = DIRTY;
+      refresh(node);
+      return node.value as T;
+    },
+    peek(): T {
+      return untrack(() => this.get());
+    },
+  };
+}
+
+/**
+ * Run a function now and again whenever a signal it read changes.
+ * It may return a cleanup, called before each re-run and on dispose.
+ *
+ * @returns Dispose function
+ */
+export function effect(fn: EffectFn): () => void {
+  const node: ComputationNode = {
+    fn,
+    value: undefined,
+    state: DIRTY,
+    sources: new Set(),
+    observers: new Set(),
+    equals: Object.is,
+    effect: true,
+    cleanup: null,
+    disposed: false,
+    owner: getOwner(),
+    version: -1,
+  };
+
+  recompute(node);
+
+  return () => {
+    if (node.disposed) return;
+    node.disposed = true;
+    for (const s of node.sources) removeObserver(s, node);
+    node.sources.clear();
+    runCleanup(node);
+  };
+}
+
+/**
+ * Apply several writes at once; effects run a single time afterwards
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) flushEffects();
+  }
+}
+
+/**
+ * Read signals without subscribing the running computed/effect
+ */
+export function untrack<T>(fn: () => T): T {
+  const prevObserver = observer;
+  observer = null;
+  try {
+    return fn();
+  } finally {
+    observer = prevObserver;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// State Container
+// ─────────────────────────────────────────────────────────────
 
 interface StateConfig<T> {
   initial: StateInitializer<T>;
@@ -43,9 +364,10 @@ const defaultEquals = <T>(a: T, b: T): boolean => {
 export function createState<T>(config: StateConfig<T>): State<T> {
   const { initial, lazy = false, onChange, equals = defaultEquals } = config;
 
-  let value: T | undefined;
   let initialized = !lazy;
-  const subscribers = new Set<StateSubscriber<T>>();
+  // Subscribers with the component that added them, for error reports
+  const subscribers = new Map<StateSubscriber<T>, ErrorOwner | null>();
+  const owner = getOwner();
 
   const getInitialValue = (): T => {
     return typeof initial === 'function'
@@ -53,51 +375,63 @@ export function createState<T>(config: StateConfig<T>): State<T> {
       : initial;
   };
 
-  if (!lazy) {
-    value = getInitialValue();
-  }
+  // Backing signal, so effects reading this state re-run on change
+  const node: SignalNode<T> = {
+    value: (lazy ? undefined : getInitialValue()) as T,
+    equals,
+    observers: new Set(),
+  };
+
+  const peek = (): T => {
+    if (!initialized) {
+      node.value = getInitialValue();
+      initialized = true;
+    }
+    return node.value;
+  };
 
   const notify = (next: T, prev: T): void => {
     if (onChange) {
       try {
         onChange(next, prev);
       } catch (e) {
-        console.error('[State] onChange error:', e);
+        report(e, 'subscriber', owner);
       }
     }
 
-    for (const subscriber of subscribers) {
+    for (const [subscriber, subscriberOwner] of subscribers) {
       try {
         subscriber(next, prev);
       } catch (e) {
-        console.error('[State] Subscriber error:', e);
+        report(e, 'subscriber', subscriberOwner);
       }
     }
   };
 
+  const commit = (next: T, prev: T): void => {
+    writeSignal(node, next, true);
+    notify(next, prev);
+  };
+
   return {
     get(): T {
-      if (!initialized) {
-        value = getInitialValue();
-        initialized = true;
-      }
-      return value as T;
+      peek();
+      return readSignal(node);
     },
 
     set(updater: StateUpdater<T>): void {
-      const prev = this.get();
+      const prev = peek();
       const next = typeof updater === 'function'
         ? (updater as (prev: T) => T)(prev)
         : updater;
 
       if (!equals(prev, next)) {
-        value = next;
-        notify(next, prev);
+        commit(next, prev);
       }
     },
 
     update(partial: Partial<T>): void {
-      const prev = this.get();
+      const prev = peek();
       if (typeof prev !== 'object' || prev === null) {
         console.warn('[State] update() can only be used with object state');
         return;
@@ -105,23 +439,21 @@ export function createState<T>(config: StateConfig<T>): State<T> {
 
       const next = { ...prev, ...partial } as T;
       if (!equals(prev, next)) {
-        value = next;
-        notify(next, prev);
+        commit(next, prev);
       }
     },
 
     subscribe(fn: StateSubscriber<T>): () => void {
-      subscribers.add(fn);
+      subscribers.set(fn, getOwner() ?? owner);
       return () => {
         subscribers.delete(fn);
       };
     },
 
     reset(): void {
-      const prev = value as T;
-      value = getInitialValue();
+      const prev = node.value;
       initialized = true;
-      notify(value, prev);
+      commit(getInitialValue(), prev);
     },
   };
 }
@@ -133,45 +465,32 @@ export function createDerived<T, D>(
   sources: State<T>[],
   derive: (values: T[]) => D
 ): { get(): D; subscribe(fn: (value: D) => void): () => void } {
-  const subscribers = new Set<(value: D) => void>();
-  let cachedValue: D | undefined;
-  let dirty = true;
-
-  const unsubscribes = sources.map((source) =>
-    source.subscribe(() => {
-      dirty = true;
-      const newValue = derive(sources.map((s) => s.get()));
-      if (newValue !== cachedValue) {
-        cachedValue = newValue;
-        for (const sub of subscribers) {
-          sub(cachedValue);
-        }
-      }
-    })
-  );
+  const value = computed(() => derive(sources.map((s) => s.get())));
 
   return {
-    get(): D {
-      if (dirty) {
-        cachedValue = derive(sources.map((s) => s.get()));
-        dirty = false;
-      }
-      return cachedValue as D;
-    },
+    get: () => value.get(),
 
     subscribe(fn: (value: D) => void): () => void {
-      subscribers.add(fn);
-      return () => {
-        subscribers.delete(fn);
-        if (subscribers.size === 0) {
-          // Cleanup source subscriptions when no subscribers
-          for (const unsub of unsubscribes) {
-            unsub();
-          }
+      let first = true;
+      return effect(() => {
+        const next = value.get();
+        if (first) {
+          first = false;
+          return;
         }
-      };
+        untrack(() => fn(next));
+      });
     },
   };
 }
 
-export type { State, StateConfig, StateSubscriber, StateUpdater };
+export type {
+  State,
+  StateConfig,
+  StateSubscriber,
+  StateUpdater,
+  Signal,
+  Computed,
+  SignalOptions,
+  EffectFn,
+};
@@ -1,12 +1,22 @@
 /**
- * Transitions - State machine for CSS transitions with proper cancellation
+ * Transitions - State machine for enter/leave animations with proper cancellation
  *
- * Manages enter/leave transitions with cancellation.
- * Prevents timer conflicts on rapid state changes.
+ * Three backends, picked from the config:
+ * - CSS classes (default): enter/leave classes, timed from getComputedStyle
+ * - Web Animations: `enterKeyframes`/`leaveKeyframes`, played with element.animate()
+ * - View Transitions: `viewTransition` wraps the update passed to enter()/leave()
+ *   in document.startViewTransition()
+ *
+ * Starting a transition cancels the running one. Keyframe animations pick up
+ * where the interrupted one stopped, so closing halfway through an opening
+ * animation plays back from that point. With `prefers-reduced-motion: reduce`
+ * every transition finishes instantly.
  */
 
 type TransitionState = 'idle' | 'entering' | 'entered' | 'leaving' | 'left';
 
+type TransitionKeyframes = Keyframe[] | PropertyIndexedKeyframes;
+
 interface TransitionConfig {
   duration?: number;
   enterClass?: string;
@@ -15,6 +25,15 @@ interface TransitionConfig {
   leaveClass?: string;
   leaveFromClass?: string;
   leaveToClass?: string;
+  /** Web Animations keyframes; leave plays them backwards unless leaveKeyframes is set */
+  enterKeyframes?: TransitionKeyframes;
+  leaveKeyframes?: TransitionKeyframes;
+  /** Easing of keyframe animations (default `ease`) */
+  easing?: string;
+  /** Run updates in a View Transition; a string also sets the element's view-transition-name */
+  viewTransition?: boolean | string;
+  /** Finish instantly when the user prefers reduced motion (default true) */
+  reducedMotion?: boolean;
   onEnter?: () => void;
   onEntered?: () => void;
   onLeave?: () => void;
@@ -23,13 +42,32 @@ interface TransitionConfig {
 
 interface Transition {
   readonly state: TransitionState;
-  enter(): Promise<void>;
-  leave(): Promise<void>;
+  /** Resolves once no enter/leave is running (follows interruptions) */
+  readonly finished: Promise<void>;
+  /** Runs `update` (the DOM change that shows the element), then animates */
+  enter(update?: () => void): Promise<void>;
+  /** Animates, then runs `update` (the DOM change that hides the element) */
+  leave(update?: () => void): Promise<void>;
   toggle(show?: boolean): Promise<void>;
   cancel(): void;
   destroy(): void;
 }
 
+// Keyframe animation length when the config has no duration
+const DEFAULT_KEYFRAME_DURATION = 200;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const prefersReducedMotion = (): boolean =>
+  typeof matchMedia === 'function' && matchMedia(REDUCED_MOTION_QUERY).matches;
+
+const supportsViewTransitions = (): boolean =>
+  typeof document !== 'undefined' && 'startViewTransition' in document;
+
+const abortError = (): DOMException => new DOMException('Transition aborted', 'AbortError');
+
+const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
 const getTransitionDuration = (element: HTMLElement): number => {
   const style = getComputedStyle(element);
   const duration = style.transitionDuration || '0s';
@@ -50,6 +88,31 @@ const getTransitionDuration = (element: HTMLElement): number => {
   return maxDuration + maxDelay;
 };
 
+/**
+ * Settle `promise` normally, or reject with an AbortError as soon as
+ * `signal` aborts.
+ */
+const untilAborted = (promise: Promise<unknown>, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const handleAbort = (): void => reject(abortError());
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(
+      () => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve();
+      },
+      (e) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(e);
+      }
+    );
+  });
+};
+
 export function createTransition(
   element: HTMLElement,
   config: TransitionConfig = {}
@@ -62,6 +125,11 @@ export function createTransition(
     leaveClass = 'leave',
     leaveFromClass = 'leave-from',
     leaveToClass = 'leave-to',
+    enterKeyframes,
+    leaveKeyframes,
+    easing = 'ease',
+    viewTransition = false,
+    reducedMotion = true,
     onEnter,
     onEntered,
     onLeave,
@@ -71,14 +139,43 @@ export function createTransition(
   let currentState: TransitionState = 'idle';
   let abortController: AbortController | null = null;
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let animation: Animation | null = null;
   let destroyed = false;
 
+  // Inline display an element hidden before leave() had, while an
+  // !important display keeps it on screen as it animates out
+  let revealed: { value: string; priority: string } | null = null;
+
+  let finishedPromise: Promise<void> = Promise.resolve();
+  let resolveFinished: (() => void) | null = null;
+
+  const beginRun = (): void => {
+    if (resolveFinished) return;
+    finishedPromise = new Promise((resolve) => {
+      resolveFinished = resolve;
+    });
+  };
+
+  const endRun = (): void => {
+    resolveFinished?.();
+    resolveFinished = null;
+  };
+
+  const reduceMotion = (): boolean => reducedMotion && prefersReducedMotion();
+
   const cleanup = (): void => {
     if (timeoutId !== null) {
       clearTimeout(timeoutId);
       timeoutId = null;
     }
 
+    animation?.cancel();
+    animation = null;
+
+    if (typeof viewTransition === 'string') {
+      element.style.removeProperty('view-transition-name');
+    }
+
     // Remove all transition classes
     element.classList.remove(
       enterClass,
@@ -90,29 +187,69 @@ export function createTransition(
     );
   };
 
+  const restoreDisplay = (): void => {
+    if (!revealed) return;
+    element.style.setProperty('display', revealed.value, revealed.priority);
+    revealed = null;
+  };
+
+  // The element stays `hidden` (for assistive tech and the component's own
+  // bookkeeping); only its display is overridden until the animation ends
+  const reveal = (): void => {
+    element.hidden = false;
+    const display = getComputedStyle(element).display;
+    element.hidden = true;
+    if (display === 'none') return;
+
+    revealed = {
+      value: element.style.getPropertyValue('display'),
+      priority: element.style.getPropertyPriority('display'),
+    };
+    element.style.setProperty('display', display, 'important');
+  };
+
   const cancelCurrentTransition = (): void => {
     if (abortController) {
       abortController.abort();
       abortController = null;
     }
     cleanup();
+    restoreDisplay();
   };
 
-  const waitForTransition = (signal: AbortSignal): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      const transitionDuration = duration ?? getTransitionDuration(element);
+  /**
+   * Fraction of the running keyframe animation already played, or null.
+   * The next animation starts at the mirrored point so it continues
+   * from where this one is on screen.
+   */
+  const playedFraction = (): number | null => {
+    if (!animation || animation.playState !== 'running') return null;
+    const { duration: total } = animation.effect?.getComputedTiming() ?? {};
+    const time = Number(animation.currentTime ?? 0);
+    return typeof total === 'number' && total > 0 ? Math.min(time / total, 1) : null;
+  };
 
-      if (transitionDuration === 0) {
-        resolve();
-        return;
-      }
+  // Whether enter/leave has anything to play (leaves the active class on)
+  const willAnimate = (entering: boolean): boolean => {
+    if (reduceMotion()) return false;
+    if (enterKeyframes || leaveKeyframes) {
+      return (duration ?? DEFAULT_KEYFRAME_DURATION) > 0 && typeof element.animate === 'function';
+    }
+    element.classList.add(entering ? enterClass : leaveClass);
+    return (duration ?? getTransitionDuration(element)) > 0;
+  };
 
+  const waitForTransition = (signal: AbortSignal): Promise<void> | null => {
+    const transitionDuration = reduceMotion() ? 0 : (duration ?? getTransitionDuration(element));
+    if (transitionDuration === 0) return null;
+
+    return new Promise((resolve, reject) => {
       const handleAbort = (): void => {
         if (timeoutId !== null) {
           clearTimeout(timeoutId);
           timeoutId = null;
         }
-        reject(new DOMException('Transition aborted', 'AbortError'));
+        reject(abortError());
       };
 
       if (signal.aborted) {
@@ -130,96 +267,127 @@ export function createTransition(
     });
   };
 
-  const transition: Transition = {
-    get state(): TransitionState {
-      return currentState;
-    },
-
-    async enter(): Promise<void> {
-      if (destroyed) return;
-
-      // Cancel any in-progress transition
-      cancelCurrentTransition();
+  const animateClasses = (entering: boolean, signal: AbortSignal): Promise<void> | null => {
+    const [active, from, to] = entering
+      ? [enterClass, enterFromClass, enterToClass]
+      : [leaveClass, leaveFromClass, leaveToClass];
 
-      abortController = new AbortController();
-      const { signal } = abortController;
+    element.classList.add(active, from);
 
-      currentState = 'entering';
-      onEnter?.();
+    // Force reflow to ensure transition starts
+    void element.offsetHeight;
 
-      // Setup enter transition
-      element.classList.add(enterClass, enterFromClass);
+    element.classList.remove(from);
+    element.classList.add(to);
 
-      // Force reflow to ensure transition starts
-      void element.offsetHeight;
+    return waitForTransition(signal);
+  };
 
-      // Start transition
-      element.classList.remove(enterFromClass);
-      element.classList.add(enterToClass);
+  const animateKeyframes = (
+    entering: boolean,
+    played: number | null,
+    signal: AbortSignal
+  ): Promise<void> | null => {
+    const time = duration ?? DEFAULT_KEYFRAME_DURATION;
+    if (reduceMotion() || time <= 0 || typeof element.animate !== 'function') return null;
+
+    const own = entering ? enterKeyframes : leaveKeyframes;
+    const keyframes = (own ?? enterKeyframes ?? leaveKeyframes)!;
+
+    animation = element.animate(keyframes, {
+      duration: time,
+      easing,
+      fill: 'both',
+      direction: own ? 'normal' : 'reverse',
+    });
+    if (played !== null) {
+      animation.currentTime = (1 - played) * time;
+    }
 
-      try {
-        await waitForTransition(signal);
+    return untilAborted(animation.finished, signal);
+  };
 
-        if (!signal.aborted) {
-          currentState = 'entered';
-          cleanup();
-          onEntered?.();
-        }
-      } catch (e) {
-        if (e instanceof DOMException && e.name === 'AbortError') {
-          // Transition was cancelled, this is expected
-          return;
-        }
-        throw e;
-      } finally {
-        if (abortController?.signal === signal) {
-          abortController = null;
-        }
-      }
-    },
+  const animateViewTransition = (update: () => void, signal: AbortSignal): Promise<void> => {
+    if (typeof viewTransition === 'string') {
+      element.style.setProperty('view-transition-name', viewTransition);
+    }
+    const vt = document.startViewTransition(update);
+    signal.addEventListener('abort', () => vt.skipTransition(), { once: true });
+    return untilAborted(vt.finished, signal);
+  };
 
-    async leave(): Promise<void> {
-      if (destroyed) return;
+  const run = async (entering: boolean, update?: () => void): Promise<void> => {
+    if (destroyed) return;
 
-      // Cancel any in-progress transition
-      cancelCurrentTransition();
+    // Only a reversal continues from the interrupted animation
+    const played = currentState === (entering ? 'leaving' : 'entering') ? playedFraction() : null;
 
-      abortController = new AbortController();
-      const { signal } = abortController;
+    // Cancel any in-progress transition
+    cancelCurrentTransition();
 
-      currentState = 'leaving';
-      onLeave?.();
+    abortController = new AbortController();
+    const { signal } = abortController;
 
-      // Setup leave transition
-      element.classList.add(leaveClass, leaveFromClass);
+    beginRun();
+    currentState = entering ? 'entering' : 'leaving';
+    (entering ? onEnter : onLeave)?.();
 
-      // Force reflow
-      void element.offsetHeight;
+    try {
+      if (viewTransition && update && supportsViewTransitions() && !reduceMotion()) {
+        await animateViewTransition(update, signal);
+      } else {
+        if (entering) update?.();
 
-      // Start transition
-      element.classList.remove(leaveFromClass);
-      element.classList.add(leaveToClass);
+        // Keep an already hidden element on screen while it animates out
+        if (!entering && element.hidden && willAnimate(entering)) reveal();
 
-      try {
-        await waitForTransition(signal);
+        const pending =
+          enterKeyframes || leaveKeyframes
+            ? animateKeyframes(entering, played, signal)
+            : animateClasses(entering, signal);
+        if (pending) await pending;
 
-        if (!signal.aborted) {
-          currentState = 'left';
-          cleanup();
-          onLeft?.();
-        }
-      } catch (e) {
-        if (e instanceof DOMException && e.name === 'AbortError') {
-          return;
-        }
-        throw e;
-      } finally {
-        if (abortController?.signal === signal) {
-          abortController = null;
+        if (!entering) {
+          restoreDisplay();
+          update?.();
         }
       }
+
+      if (!signal.aborted) {
+        currentState = entering ? 'entered' : 'left';
+        cleanup();
+        (entering ? onEntered : onLeft)?.();
+      }
+    } catch (e) {
+      // Transition was cancelled, this is expected
+      if (isAbortError(e)) return;
+      throw e;
+    } finally {
+      if (abortController?.signal === signal) {
+        abortController = null;
+        endRun();
+      }
+    }
+  };
+
+  const transition: Transition = {
+    get state(): TransitionState {
+      return currentState;
+    },
+
+    get finished(): Promise<void> {
+      return finishedPromise;
+    },
+
+    enter(update?: () => void): Promise<void> {
+      return run(true, update);
+    },
+
+    leave(update?: () => void): Promise<void> {
+      return run(false, update);
     },
 
+    // Reverses a running transition from its current point
     async toggle(show?: boolean): Promise<void> {
       const shouldShow = show ?? (currentState === 'idle' || currentState === 'left' || currentState === 'leaving');
       return shouldShow ? this.enter() : this.leave();
@@ -228,6 +396,7 @@ export function createTransition(
     cancel(): void {
       cancelCurrentTransition();
       currentState = 'idle';
+      endRun();
     },
 
     destroy(): void {
@@ -235,10 +404,11 @@ export function createTransition(
       destroyed = true;
       cancelCurrentTransition();
       currentState = 'idle';
+      endRun();
     },
   };
 
   return transition;
 }
 
-export type { Transition, TransitionConfig, TransitionState };
+export type { Transition, TransitionConfig, TransitionKeyframes, TransitionState };
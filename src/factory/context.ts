@@ -4,16 +4,34 @@
 
 import { scheduler } from '../core/scheduler';
 import { cache } from '../core/cache';
-import { createState, type State } from '../core/state';
+import { createState, effect, type State } from '../core/state';
 import { createTransition, type Transition } from '../core/transitions';
 import type { EventScope } from '../core/events';
+import { report, runWithOwner, type ErrorOwner } from '../core/diagnostics';
+import { queryTeleported } from '../core/logical';
 import type {
+  Behavior,
   ComponentContext,
   ChildDefinition,
   SchemaTransitionConfig,
   CleanupFn,
+  WatchCallback,
+  FormContext,
+  FormValue,
+  FormRestoreMode,
 } from './types';
 
+/**
+ * Form lifecycle hooks registered through ctx.form, invoked by the
+ * element's form-associated callbacks.
+ */
+export interface FormHooks {
+  reset: Array<() => void>;
+  restore: Array<(state: FormValue, mode: FormRestoreMode) => void>;
+  disabled: Array<(disabled: boolean) => void>;
+  isDisabled: boolean;
+}
+
 export interface ContextConfig {
   element: HTMLElement;
   abortController: AbortController;
@@ -21,8 +39,56 @@ export interface ContextConfig {
   children?: { [key: string]: ChildDefinition };
   transitions?: { [name: string]: SchemaTransitionConfig };
   cleanupFns: CleanupFn[];
+  moveFns?: Array<() => void>;
   stateMap: Map<string, State<unknown>>;
   transitionMap: Map<string, Transition>;
+  internals?: ElementInternals | null;
+  formHooks?: FormHooks;
+  shadowRoot?: ShadowRoot | null;
+  watchers?: Map<string, Set<WatchCallback>>;
+  behaviorApis?: Map<Behavior, unknown>;
+  /** Component that state and effects created through ctx belong to */
+  owner?: ErrorOwner | null;
+}
+
+/**
+ * Create the ctx.form API around (optional) ElementInternals
+ */
+function createFormContext(
+  internals: ElementInternals | null,
+  hooks: FormHooks
+): FormContext {
+  return {
+    internals,
+
+    get disabled(): boolean {
+      return hooks.isDisabled;
+    },
+
+    setValue(value: FormValue, state?: FormValue): void {
+      internals?.setFormValue(value, state);
+    },
+
+    setValidity(
+      flags: ValidityStateFlags = {},
+      message?: string,
+      anchor?: HTMLElement | null
+    ): void {
+      internals?.setValidity(flags, message, anchor ?? undefined);
+    },
+
+    onReset(fn: () => void): void {
+      hooks.reset.push(fn);
+    },
+
+    onRestore(fn: (state: FormValue, mode: FormRestoreMode) => void): void {
+      hooks.restore.push(fn);
+    },
+
+    onDisabled(fn: (disabled: boolean) => void): void {
+      hooks.disabled.push(fn);
+    },
+  };
 }
 
 /**
@@ -36,8 +102,15 @@ export function createContext(config: ContextConfig): ComponentContext {
     children = {},
     transitions = {},
     cleanupFns,
+    moveFns = [],
     stateMap,
     transitionMap,
+    internals = null,
+    formHooks = { reset: [], restore: [], disabled: [], isDisabled: false },
+    shadowRoot = null,
+    watchers = new Map<string, Set<WatchCallback>>(),
+    behaviorApis = new Map<Behavior, unknown>(),
+    owner = null,
   } = config;
 
   // Child cache for lazy access
@@ -54,8 +127,23 @@ export function createContext(config: ContextConfig): ComponentContext {
     }
   }
 
+  // Queries include content teleported out of the element, after the
+  // element's own matches
+  const query = <E extends Element = Element>(selector: string): E | null =>
+    cache.query.one<E>(element, selector) ?? queryTeleported<E>(element, selector)[0] ?? null;
+
+  const queryAll = <E extends Element = Element>(selector: string): E[] => {
+    const local = cache.query.all<E>(element, selector);
+    const teleported = queryTeleported<E>(element, selector);
+    return teleported.length > 0 ? [...local, ...teleported] : local;
+  };
+
   let stateCounter = 0;
 
+  // Transitions created by ctx.transition(), per schema name and target
+  const targetTransitions = new Map<string, WeakMap<HTMLElement, Transition>>();
+  let targetTransitionCounter = 0;
+
   const ctx: ComponentContext = {
     element,
     signal: abortController.signal,
@@ -65,7 +153,7 @@ export function createContext(config: ContextConfig): ComponentContext {
       if (stateMap.has(key)) {
         return stateMap.get(key) as State<S>;
       }
-      const state = createState({ initial });
+      const state = runWithOwner(owner, () => createState({ initial }));
       stateMap.set(key, state as State<unknown>);
       return state;
     },
@@ -84,8 +172,8 @@ export function createContext(config: ContextConfig): ComponentContext {
           const multiple = typeof config === 'object' && config.multiple;
 
           const result = multiple
-            ? Array.from(element.querySelectorAll<HTMLElement>(selector))
-            : element.querySelector<HTMLElement>(selector);
+            ? queryAll<HTMLElement>(selector)
+            : query<HTMLElement>(selector);
 
           // Only cache if not observing
           const shouldCache = typeof config === 'string' || !config.observe;
@@ -99,7 +187,29 @@ export function createContext(config: ContextConfig): ComponentContext {
     },
 
     get transitions(): { [name: string]: Transition } {
-      return Object.fromEntries(transitionMap);
+      return Object.fromEntries(
+        [...transitionMap].filter(([name]) => name in transitions)
+      );
+    },
+
+    transition(name: string, target: HTMLElement): Transition | null {
+      const config = transitions[name];
+      if (!config) return null;
+
+      let perTarget = targetTransitions.get(name);
+      if (!perTarget) {
+        perTarget = new WeakMap();
+        targetTransitions.set(name, perTarget);
+      }
+
+      let transition = perTarget.get(target);
+      if (!transition) {
+        transition = createTransition(target, config);
+        perTarget.set(target, transition);
+        // Registered under a unique key so disconnect destroys it too
+        transitionMap.set(`${name}#${++targetTransitionCounter}`, transition);
+      }
+      return transition;
     },
 
     events: eventScope,
@@ -110,18 +220,49 @@ export function createContext(config: ContextConfig): ComponentContext {
       cleanupFns.push(fn);
     },
 
-    query<E extends Element = Element>(selector: string): E | null {
-      return cache.query.one<E>(element, selector);
+    onMove(fn: () => void): void {
+      moveFns.push(fn);
     },
 
-    queryAll<E extends Element = Element>(selector: string): E[] {
-      return cache.query.all<E>(element, selector);
+    watch(props: string | string[], callback: WatchCallback): CleanupFn {
+      const names = Array.isArray(props) ? props : [props];
+      for (const name of names) {
+        let set = watchers.get(name);
+        if (!set) {
+          set = new Set();
+          watchers.set(name, set);
+        }
+        set.add(callback);
+      }
+      return () => {
+        for (const name of names) watchers.get(name)?.delete(callback);
+      };
+    },
+
+    use<A>(behavior: Behavior<A>): A {
+      if (!behaviorApis.has(behavior)) {
+        throw new Error(`[${element.localName}] Behavior "${behavior.name}" is not set up on this component`);
+      }
+      return behaviorApis.get(behavior) as A;
     },
 
+    effect(fn: () => void | CleanupFn): CleanupFn {
+      const dispose = runWithOwner(owner, () => effect(fn));
+      cleanupFns.push(dispose);
+      return dispose;
+    },
+
+    query,
+    queryAll,
+
     querySlot<E extends Element = Element>(slot: string): E[] {
-      return cache.query.all<E>(element, `w-slot[${slot}] > *`);
+      return queryAll<E>(`w-slot[${slot}] > *`);
     },
 
+    shadowRoot,
+
+    form: createFormContext(internals, formHooks),
+
     emit<D = unknown>(event: string, detail?: D, options?: CustomEventInit): boolean {
       const customEvent = new CustomEvent(event, {
         detail,
@@ -139,7 +280,7 @@ export function createContext(config: ContextConfig): ComponentContext {
           const fn = new Function('event', attrHandler);
           fn.call(element, customEvent);
         } catch (e) {
-          console.error(`Error in w-${event} handler:`, e);
+          report(e, 'event', owner);
         }
       }
 
@@ -5,22 +5,37 @@
 import { scheduler } from "../core/scheduler";
 import { createEventScope, type EventScope } from "../core/events";
 import type { Transition } from "../core/transitions";
-import type { State } from "../core/state";
-import { createContext, invalidateChildCache } from "./context";
+import { signal, type Signal, type State } from "../core/state";
+import {
+  report,
+  runWithOwner,
+  type ErrorOwner,
+  type ErrorPhase,
+} from "../core/diagnostics";
+import { SLOT } from "../constants";
+import {
+  createContext,
+  invalidateChildCache,
+  type FormHooks,
+} from "./context";
 import type {
+  Behavior,
   ComponentSchema,
-  PropType,
+  PropDefinition,
   CleanupFn,
+  WatchCallback,
   ComponentContext,
+  FormValue,
+  FormRestoreMode,
+  InitOptions,
+  EmitsConfig,
+  EventSpec,
   WComponent,
 } from "./types";
 
 // Queue of pending component schemas (for lazy initialization)
 const pendingComponents: ComponentSchema<HTMLElement & WComponent>[] = [];
 
-// Accumulated structural CSS contributed by component schemas. Flushed into
-// a single `@layer waria` stylesheet on init().
-const pendingStyles: string[] = [];
 
 // The single CSSStyleSheet adopted by the document. Created on first init().
 let wariaSheet: CSSStyleSheet | null = null;
@@ -28,31 +43,132 @@ let wariaSheet: CSSStyleSheet | null = null;
 // Whether the library has been initialized
 let initialized = false;
 
+// init({ lazy }): components stay queued until their tag appears
+let lazy = false;
+
+// Tags the loader defines on first appearance (lazy mode); any other
+// component registers as soon as it is defined
+let deferredTags: ReadonlySet<string> = new Set();
+
+// Resolved by init(), for whenReady()
+let resolveInitialized: () => void;
+const initializedPromise = new Promise<void>((resolve) => {
+  resolveInitialized = resolve;
+});
+
+// Connected instances, for whenReady()
+const instances = new Set<HTMLElement & WComponent>();
+
+// Prefix replacing "w" in built-in tags (set by init options)
+let tagPrefix = "w";
+
+// Canonical tags chosen by init({ components }); null registers everything
+let selectedTags: Set<string> | null = null;
+
+// Transition overrides from init({ transitions }), by canonical tag
+let transitionOverrides: NonNullable<InitOptions["transitions"]> = {};
+
+// Shared slot container, registered once and never prefixed
+const SLOT_TAG = "w-slot";
+
+// ElementInternals of form-associated instances, keyed by host element
+const elementInternals = new WeakMap<HTMLElement, ElementInternals>();
+
+// Names a <w-slot> can carry as its boolean attribute (trigger, body, ...)
+const SLOT_NAMES = new Set<string>(Object.keys(SLOT));
+
+// Invalid prop values already reported, keyed by tag:prop:value
+const warnedValues = new Set<string>();
+
+// Per-instance change counters that make prop reads trackable by effects
+const propSignals = new WeakMap<HTMLElement, Map<string, Signal<number>>>();
+
+function trackProp(el: HTMLElement, name: string): void {
+  let signals = propSignals.get(el);
+  if (!signals) {
+    signals = new Map();
+    propSignals.set(el, signals);
+  }
+  let counter = signals.get(name);
+  if (!counter) {
+    counter = signal(0);
+    signals.set(name, counter);
+  }
+  counter.get();
+}
+
+function triggerProp(el: HTMLElement, name: string): void {
+  propSignals.get(el)?.get(name)?.set((n) => n + 1);
+}
+
+/**
+ * Warn (dev only, once per value) about a prop value outside `values`
+ */
+function warnInvalidValue(
+  tag: string,
+  prop: PropDefinition,
+  value: unknown,
+): void {
+  if (!import.meta.env.DEV) return;
+  const key = `${tag}:${prop.name}:${String(value)}`;
+  if (warnedValues.has(key)) return;
+  warnedValues.add(key);
+  console.warn(
+    `[${tag}] Invalid ${prop.name}="${String(value)}", expected one of: ${prop.values!.join(", ")}. Using "${String(prop.default)}".`,
+  );
+}
+
 /**
- * Parse an attribute value based on type
+ * Parse an attribute value based on the prop's converter or type
  */
 function parseAttribute(
   value: string | null,
-  type: PropType,
-  defaultValue?: unknown,
+  prop: PropDefinition,
+  tag: string,
 ): unknown {
   if (value === null) {
-    return defaultValue;
+    return prop.default;
   }
 
-  switch (type) {
+  const parsed = convertAttribute(value, prop);
+
+  if (prop.values && !prop.values.includes(parsed)) {
+    warnInvalidValue(tag, prop, parsed);
+    return prop.default;
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a non-null attribute string to its typed value
+ */
+function convertAttribute(value: string, prop: PropDefinition): unknown {
+  if (prop.converter) {
+    try {
+      return prop.converter.parse(value);
+    } catch {
+      return prop.default;
+    }
+  }
+
+  switch (prop.type) {
     case String:
       return value;
     case Number:
       return Number(value);
     case Boolean:
-      return value !== null && value !== "false";
+      return value !== "false";
+    case Date: {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? prop.default : date;
+    }
     case Array:
     case Object:
       try {
         return JSON.parse(value);
       } catch {
-        return defaultValue;
+        return prop.default;
       }
     default:
       return value;
@@ -62,14 +178,22 @@ function parseAttribute(
 /**
  * Convert a value to an attribute string
  */
-function toAttributeValue(value: unknown, type: PropType): string | null {
+function toAttributeValue(value: unknown, prop: PropDefinition): string | null {
   if (value === null || value === undefined) {
     return null;
   }
 
-  switch (type) {
+  if (prop.converter) {
+    return prop.converter.serialize(value);
+  }
+
+  switch (prop.type) {
     case Boolean:
       return value ? "" : null;
+    case Date:
+      return value instanceof Date && !isNaN(value.getTime())
+        ? value.toISOString()
+        : String(value);
     case Array:
     case Object:
       return JSON.stringify(value);
@@ -79,15 +203,15 @@ function toAttributeValue(value: unknown, type: PropType): string | null {
 }
 
 /**
- * Update an attribute based on type
+ * Update an attribute based on the prop definition
  */
 function updateAttribute(
   element: HTMLElement,
   name: string,
   value: unknown,
-  type: PropType,
+  prop: PropDefinition,
 ): void {
-  const attrValue = toAttributeValue(value, type);
+  const attrValue = toAttributeValue(value, prop);
 
   if (attrValue === null) {
     element.removeAttribute(name);
@@ -96,6 +220,38 @@ function updateAttribute(
   }
 }
 
+/**
+ * Map a canonical `w-*` tag to the tag registered under the configured
+ * prefix (`w-dialog` becomes `acme-dialog`). Other tags pass through.
+ */
+export function resolveTag(tag: string): string {
+  if (tagPrefix === "w" || tag === SLOT_TAG || !tag.startsWith("w-")) {
+    return tag;
+  }
+  return `${tagPrefix}${tag.slice(1)}`;
+}
+
+/**
+ * Rewrite `w-*` type selectors in component CSS to the configured prefix.
+ * Classes, ids and custom properties (`.w-split-resizer`, `--w-knob`) are
+ * left alone.
+ */
+function prefixStyles(css: string): string {
+  if (tagPrefix === "w") return css;
+  return css.replace(
+    /(^|[^\w.#-])w-([a-z][a-z0-9-]*)/g,
+    (match, before: string, name: string) =>
+      name === "slot" ? match : `${before}${tagPrefix}-${name}`,
+  );
+}
+
+/**
+ * Whether a canonical tag is part of the init({ components }) selection
+ */
+function isSelected(tag: string): boolean {
+  return !selectedTags || tag === SLOT_TAG || selectedTags.has(tag);
+}
+
 /**
  * Convert camelCase to kebab-case
  */
@@ -103,6 +259,130 @@ function toKebabCase(str: string): string {
   return str.replace(/([A-Z])/g, "-$1").toLowerCase();
 }
 
+/**
+ * Expose the native form-control surface (form, validity, checkValidity(),
+ * ...) on a form-associated component, backed by its ElementInternals.
+ */
+function defineFormAccessors(proto: HTMLElement): void {
+  const getters: Record<string, (i: ElementInternals) => unknown> = {
+    form: (i) => i.form,
+    labels: (i) => i.labels,
+    validity: (i) => i.validity,
+    validationMessage: (i) => i.validationMessage,
+    willValidate: (i) => i.willValidate,
+  };
+
+  for (const [name, get] of Object.entries(getters)) {
+    Object.defineProperty(proto, name, {
+      get(this: HTMLElement) {
+        const internals = elementInternals.get(this);
+        return internals ? get(internals) : undefined;
+      },
+      enumerable: true,
+      configurable: true,
+    });
+  }
+
+  Object.defineProperties(proto, {
+    checkValidity: {
+      value(this: HTMLElement): boolean {
+        return elementInternals.get(this)?.checkValidity() ?? true;
+      },
+      writable: true,
+      configurable: true,
+    },
+    reportValidity: {
+      value(this: HTMLElement): boolean {
+        return elementInternals.get(this)?.reportValidity() ?? true;
+      },
+      writable: true,
+      configurable: true,
+    },
+  });
+}
+
+/**
+ * Build the stylesheet adopted by every shadow root of a shadow-mode
+ * component. Same `@layer waria` contract as the document sheet, plus the
+ * w-slot transparency rule the document sheet would otherwise provide.
+ */
+function createShadowSheet(css = ""): CSSStyleSheet | string {
+  const text = `@layer waria {\n::slotted(w-slot) { display: contents; }\n${css}\n}`;
+
+  if (
+    typeof CSSStyleSheet !== "undefined" &&
+    "adoptedStyleSheets" in ShadowRoot.prototype
+  ) {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(text);
+    return sheet;
+  }
+
+  // Fallback: each shadow root gets its own <style> copy
+  return text;
+}
+
+/**
+ * Resolve the slot name of a <w-slot> from its boolean attribute
+ * (e.g. <w-slot trigger> -> "trigger").
+ */
+function getWSlotName(el: Element): string | null {
+  for (const attr of el.getAttributeNames()) {
+    if (SLOT_NAMES.has(attr)) return attr;
+  }
+  return null;
+}
+
+/**
+ * Assign each direct <w-slot> child to a native <slot> of the same name,
+ * creating named slots (ahead of the default slot) as new names appear.
+ */
+function projectSlots(host: HTMLElement, root: ShadowRoot): void {
+  const defaultSlot = root.querySelector("slot:not([name])");
+
+  for (const child of Array.from(host.children)) {
+    if (child.tagName !== "W-SLOT" || child.hasAttribute("slot")) continue;
+
+    const name = getWSlotName(child);
+    if (!name) continue;
+
+    child.setAttribute("slot", name);
+
+    if (!root.querySelector(`slot[name="${name}"]`)) {
+      const slot = document.createElement("slot");
+      slot.name = name;
+      root.insertBefore(slot, defaultSlot);
+    }
+  }
+}
+
+/**
+ * Attach and populate the shadow root of a shadow-mode component
+ */
+function attachShadowRoot(
+  host: HTMLElement,
+  init: ShadowRootInit,
+  sheet: CSSStyleSheet | string,
+): ShadowRoot {
+  const root = host.attachShadow(init);
+
+  if (typeof sheet === "string") {
+    const style = document.createElement("style");
+    style.textContent = sheet;
+    root.appendChild(style);
+  } else {
+    root.adoptedStyleSheets = [sheet];
+  }
+
+  root.appendChild(document.createElement("slot"));
+  projectSlots(host, root);
+
+  // New <w-slot> children first land in the default slot; re-project them
+  root.addEventListener("slotchange", () => projectSlots(host, root));
+
+  return root;
+}
+
 /**
  * Actually register a component with the browser's custom elements registry
  */
@@ -110,28 +390,51 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
   schema: ComponentSchema<T>,
 ): void {
   const {
-    tag,
+    tag: baseTag,
     props = [],
     children = {},
     events = {},
     viewport,
-    transitions = {},
+    transitions: schemaTransitions = {},
     aria,
     setup,
     methods = {},
+    formAssociated = false,
+    shadow,
+    styles,
+    behaviors = [],
+    onError,
   } = schema;
 
   // Validate tag name
-  if (!tag.includes("-")) {
-    throw new Error(`Component tag must include a hyphen: ${tag}`);
+  if (!baseTag.includes("-")) {
+    throw new Error(`Component tag must include a hyphen: ${baseTag}`);
   }
 
-  // Check if already defined
+  const tag = resolveTag(baseTag);
+
+  // App-level overrides replace individual options of the schema's configs
+  const transitions = { ...schemaTransitions };
+  for (const [name, override] of Object.entries(
+    transitionOverrides[baseTag] ?? {},
+  )) {
+    transitions[name] = { ...transitions[name], ...override };
+  }
+
+  // Check if already defined (w-slot may come from another waria copy)
   if (customElements.get(tag)) {
-    console.warn(`Component ${tag} is already defined`);
+    if (tag !== SLOT_TAG) console.warn(`Component ${tag} is already defined`);
     return;
   }
 
+  // Shadow-mode components share one stylesheet across instances
+  const shadowInit: ShadowRootInit | null = shadow
+    ? { mode: "open", ...(typeof shadow === "object" ? shadow : {}) }
+    : null;
+  const shadowSheet = shadowInit
+    ? createShadowSheet(styles && prefixStyles(styles))
+    : null;
+
   // Build observed attributes list
   const observedAttributes = props
     .filter((p) => p.reflect !== false)
@@ -144,14 +447,73 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
     #stateMap = new Map<string, State<unknown>>();
     #transitionMap = new Map<string, Transition>();
     #cleanupFns: CleanupFn[] = [];
+    #moveFns: Array<() => void> = [];
     #setupCleanup: CleanupFn | null = null;
     #context: ComponentContext | null = null;
+    #shadowRoot: ShadowRoot | null = null;
+    #formHooks: FormHooks = {
+      reset: [],
+      restore: [],
+      disabled: [],
+      isDisabled: false,
+    };
+    #watchers = new Map<string, Set<WatchCallback>>();
+    // What each behavior's setup returned, for ctx.use()
+    #behaviorApis = new Map<Behavior, unknown>();
+    // Attribute value each changed prop had before the pending batch
+    #pendingChanges = new Map<PropDefinition, string | null>();
+    // Set by a disconnect until its deferred teardown runs; a reconnect
+    // in the meantime is a move and keeps the instance set up
+    #pendingTeardown = false;
+    #document: Document | null = null;
+    // Errors thrown by this instance's code are reported against it
+    #owner: ErrorOwner = {
+      tag,
+      element: this,
+      onError,
+    };
 
     static get observedAttributes(): string[] {
       return observedAttributes;
     }
 
+    static get formAssociated(): boolean {
+      return formAssociated;
+    }
+
+    constructor() {
+      super();
+      if (formAssociated && "attachInternals" in this) {
+        elementInternals.set(this, this.attachInternals());
+      }
+    }
+
     connectedCallback(): void {
+      adoptWariaSheet(this);
+
+      if (this.#pendingTeardown) {
+        this.#pendingTeardown = false;
+        if (this.ownerDocument === this.#document) {
+          this.#moved();
+          return;
+        }
+        // Adopted into another document: start over there
+        this.#teardown();
+      }
+      this.#document = this.ownerDocument;
+
+      try {
+        runWithOwner(this.#owner, () => this.#connect());
+        instances.add(this);
+      } catch (e) {
+        // Tear down what setup got to, so one broken element stays inert
+        // instead of half-wired; onError can render a fallback
+        this.#teardown();
+        this.#report(e, "setup");
+      }
+    }
+
+    #connect(): void {
       // Reset if reconnecting
       if (this.#abortController?.signal.aborted) {
         this.#abortController = new AbortController();
@@ -159,6 +521,11 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         this.#abortController = new AbortController();
       }
 
+      // Attach the shadow root once; it survives reconnects
+      if (shadowInit && !this.#shadowRoot) {
+        this.#shadowRoot = attachShadowRoot(this, shadowInit, shadowSheet!);
+      }
+
       this.#eventScope = createEventScope(this);
 
       // Setup delegated events from schema
@@ -202,9 +569,11 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
               config.handler
             ];
             if (typeof method === "function") {
-              scheduler.read(() => {
-                (method as () => void).call(this);
-              });
+              runWithOwner(this.#owner, () =>
+                scheduler.read(() => {
+                  (method as () => void).call(this);
+                }),
+              );
             }
           });
         };
@@ -243,7 +612,7 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
           if (prop.default === true) this.setAttribute(attrName, "");
           continue;
         }
-        const attrValue = toAttributeValue(prop.default, prop.type);
+        const attrValue = toAttributeValue(prop.default, prop);
         if (attrValue !== null) this.setAttribute(attrName, attrValue);
       }
 
@@ -252,8 +621,8 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         this.setAttribute("role", aria.role);
       }
 
-      // Create context and call setup
-      if (setup) {
+      // Create context, then set up behaviors and the component
+      if (setup || behaviors.length > 0) {
         this.#context = createContext({
           element: this,
           abortController: this.#abortController,
@@ -261,18 +630,58 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
           children,
           transitions,
           cleanupFns: this.#cleanupFns,
+          moveFns: this.#moveFns,
           stateMap: this.#stateMap,
           transitionMap: this.#transitionMap,
+          internals: elementInternals.get(this) ?? null,
+          formHooks: this.#formHooks,
+          shadowRoot: this.#shadowRoot,
+          watchers: this.#watchers,
+          behaviorApis: this.#behaviorApis,
+          owner: this.#owner,
         });
 
-        const cleanup = setup.call(this, this.#context as ComponentContext<T>);
+        for (const behavior of behaviors) {
+          this.#behaviorApis.set(behavior, behavior.setup?.(this.#context));
+        }
+
+        const cleanup = setup?.call(this, this.#context as ComponentContext<T>);
         if (typeof cleanup === "function") {
           this.#setupCleanup = cleanup;
         }
       }
     }
 
+    // Element.moveBefore() keeps the element connected: nothing to set up
+    // again, only ctx.onMove hooks run
+    connectedMoveCallback(): void {
+      this.#moved();
+    }
+
+    #moved(): void {
+      for (const fn of this.#moveFns) {
+        try {
+          runWithOwner(this.#owner, fn);
+        } catch (e) {
+          this.#report(e, "move");
+        }
+      }
+    }
+
     disconnectedCallback(): void {
+      // Reinserted before microtasks run (teleport, list reordering) means
+      // moved, not removed: tear down only if still detached by then
+      this.#pendingTeardown = true;
+      queueMicrotask(() => {
+        if (!this.#pendingTeardown) return;
+        this.#pendingTeardown = false;
+        this.#teardown();
+      });
+    }
+
+    #teardown(): void {
+      instances.delete(this);
+
       // Abort pending operations
       this.#abortController?.abort();
 
@@ -281,7 +690,7 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         try {
           this.#setupCleanup();
         } catch (e) {
-          console.error(`[${tag}] Setup cleanup error:`, e);
+          this.#report(e, "cleanup");
         }
         this.#setupCleanup = null;
       }
@@ -301,13 +710,25 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         try {
           fn();
         } catch (e) {
-          console.error(`[${tag}] Cleanup error:`, e);
+          this.#report(e, "cleanup");
         }
       }
       this.#cleanupFns = [];
+      this.#moveFns = [];
+
+      // Drop form hooks registered by setup (disabled state is kept, the
+      // browser re-reports it on the next insertion)
+      this.#formHooks.reset = [];
+      this.#formHooks.restore = [];
+      this.#formHooks.disabled = [];
+
+      // Drop watchers and any batch still waiting for the scheduler
+      this.#watchers.clear();
+      this.#pendingChanges.clear();
 
       // Clear state
       this.#stateMap.clear();
+      this.#behaviorApis.clear();
       this.#abortController = null;
       this.#context = null;
     }
@@ -333,12 +754,92 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         );
 
         if (descriptor?.set) {
-          const value = parseAttribute(newValue, prop.type, prop.default);
+          const value = parseAttribute(newValue, prop, tag);
           (this as unknown as Record<string, unknown>)[propName] = value;
         }
+
+        triggerProp(this, propName);
+        this.#queueWatch(prop, oldValue);
+      }
+    }
+
+    /**
+     * Record a prop change for its watchers and schedule one flush per batch
+     */
+    #queueWatch(prop: PropDefinition, oldValue: string | null): void {
+      if (!this.#watchers.get(prop.name)?.size) return;
+      if (this.#pendingChanges.has(prop)) return;
+
+      const first = this.#pendingChanges.size === 0;
+      this.#pendingChanges.set(prop, oldValue);
+      if (first) {
+        runWithOwner(this.#owner, () =>
+          scheduler.write(() => this.#flushWatchers(), {
+            signal: this.#abortController?.signal,
+          }),
+        );
+      }
+    }
+
+    #flushWatchers(): void {
+      const changes = [...this.#pendingChanges];
+      this.#pendingChanges.clear();
+
+      // A callback watching several props only runs once per batch
+      const called = new Set<WatchCallback>();
+
+      for (const [prop, oldValue] of changes) {
+        const newValue = this.getAttribute(
+          prop.attribute ?? toKebabCase(prop.name),
+        );
+        // Changed and changed back within the batch
+        if (newValue === oldValue) continue;
+
+        const value = parseAttribute(newValue, prop, tag);
+        const old = parseAttribute(oldValue, prop, tag);
+
+        for (const fn of [...(this.#watchers.get(prop.name) ?? [])]) {
+          if (called.has(fn)) continue;
+          called.add(fn);
+          try {
+            runWithOwner(this.#owner, () => fn(value, old, prop.name));
+          } catch (e) {
+            this.#report(e, "watch");
+          }
+        }
+      }
+    }
+
+    formResetCallback(): void {
+      this.#runFormHooks(this.#formHooks.reset);
+    }
+
+    formStateRestoreCallback(state: FormValue, mode: FormRestoreMode): void {
+      this.#runFormHooks(this.#formHooks.restore, state, mode);
+    }
+
+    formDisabledCallback(disabled: boolean): void {
+      this.#formHooks.isDisabled = disabled;
+      this.#runFormHooks(this.#formHooks.disabled, disabled);
+    }
+
+    #runFormHooks<A extends unknown[]>(
+      hooks: Array<(...args: A) => void>,
+      ...args: A
+    ): void {
+      for (const fn of hooks) {
+        try {
+          runWithOwner(this.#owner, () => fn(...args));
+        } catch (e) {
+          this.#report(e, "form");
+        }
       }
     }
 
+    #report(error: unknown, phase: ErrorPhase): void {
+      report(error, phase, this.#owner);
+    }
+
     /**
      * Update the component (invalidate caches, re-query children)
      */
@@ -347,6 +848,27 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
         invalidateChildCache(this.#context);
       }
     }
+
+    get updateComplete(): Promise<void> {
+      return this.#settle();
+    }
+
+    async #settle(): Promise<void> {
+      // Let work deferred to a microtask by setup or a prop change start
+      await Promise.resolve();
+
+      // Finishing a task can start a transition and a transition's
+      // callbacks can queue tasks: repeat until neither is pending
+      for (;;) {
+        await scheduler.settled(this);
+        const running = [...this.#transitionMap.values()].filter(
+          (transition) =>
+            transition.state === "entering" || transition.state === "leaving",
+        );
+        if (running.length === 0) return;
+        await Promise.all(running.map((transition) => transition.finished));
+      }
+    }
   }
 
   // Define reactive properties
@@ -355,12 +877,13 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
 
     Object.defineProperty(Component.prototype, prop.name, {
       get(this: Component) {
+        trackProp(this, prop.name);
         const attr = this.getAttribute(attrName);
-        return parseAttribute(attr, prop.type, prop.default);
+        return parseAttribute(attr, prop, tag);
       },
       set(this: Component, value: unknown) {
         if (prop.reflect !== false) {
-          updateAttribute(this, attrName, value, prop.type);
+          updateAttribute(this, attrName, value, prop);
         }
       },
       enumerable: true,
@@ -368,6 +891,10 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
     });
   }
 
+  if (formAssociated) {
+    defineFormAccessors(Component.prototype);
+  }
+
   // Define methods
   for (const [name, method] of Object.entries(methods)) {
     Object.defineProperty(Component.prototype, name, {
@@ -392,38 +919,151 @@ function registerComponent<T extends HTMLElement = HTMLElement & WComponent>(
  */
 export function defineComponent<
   T extends HTMLElement = HTMLElement & WComponent,
->(schema: ComponentSchema<T>): void {
-  if (schema.styles) {
-    if (initialized && wariaSheet) {
-      // Library already running — append to the live stylesheet.
-      appendToWariaSheet(schema.styles);
-    } else {
-      // Queue for the first init() flush.
-      pendingStyles.push(schema.styles);
-    }
-  }
+  E extends EmitsConfig = EmitsConfig,
+>(definition: ComponentSchema<T, E>): void {
+  const schema = applyBehaviors(definition);
 
-  if (initialized) {
+  if (initialized && !(lazy && deferredTags.has(schema.tag))) {
     // Already initialized - register immediately
-    registerComponent(schema);
+    registerLate(schema);
   } else {
-    // Queue for later registration
+    // Queue for later registration (or, in lazy mode, first appearance)
     pendingComponents.push(
       schema as unknown as ComponentSchema<HTMLElement & WComponent>,
     );
   }
 }
 
+/**
+ * Register a component after init(), adding its styles to the sheet
+ */
+function registerLate<T extends HTMLElement>(schema: ComponentSchema<T>): void {
+  if (!isSelected(schema.tag)) return;
+  // Shadow-mode styles live in the component's own shadow roots
+  if (schema.styles && !schema.shadow) {
+    appendToWariaSheet(prefixStyles(schema.styles));
+  }
+  registerComponent(schema);
+}
+
+/**
+ * Register a queued component by canonical tag (lazy mode). Returns false
+ * when no component with that tag has been defined yet.
+ */
+export function registerQueued(tag: string): boolean {
+  const index = pendingComponents.findIndex((schema) => schema.tag === tag);
+  if (index === -1) return false;
+
+  const [schema] = pendingComponents.splice(index, 1);
+  registerLate(schema);
+  return true;
+}
+
+/**
+ * Leave the given canonical tags queued for the loader (lazy mode) and
+ * register every other queued component now.
+ */
+export function deferTags(tags: Iterable<string>): void {
+  deferredTags = new Set(tags);
+  for (const schema of [...pendingComponents]) {
+    if (!deferredTags.has(schema.tag)) registerQueued(schema.tag);
+  }
+}
+
+/**
+ * Define a reusable behavior for `ComponentSchema.behaviors`. Type-only
+ * helper: it infers the API type `ctx.use()` returns from `setup`.
+ *
+ * @example
+ * const counter = defineBehavior({
+ *   name: "counter",
+ *   setup: (ctx) => ({ count: ctx.state(0) }),
+ * });
+ * // In a component listing it: ctx.use(counter).count.set(1)
+ */
+export function defineBehavior<A>(behavior: Behavior<A>): Behavior<A> {
+  return behavior;
+}
+
+/**
+ * Flatten behaviors depth-first, dependencies before dependents, each
+ * behavior once.
+ */
+function flattenBehaviors(
+  behaviors: Behavior[],
+  result: Behavior[] = [],
+): Behavior[] {
+  for (const behavior of behaviors) {
+    if (result.includes(behavior)) continue;
+    flattenBehaviors(behavior.behaviors ?? [], result);
+    result.push(behavior);
+  }
+  return result;
+}
+
+/**
+ * Merge the schema's behaviors into it. Later entries override earlier ones
+ * by name (props, children, transitions, emits) and the schema's own
+ * definitions override them all; events of the same type are all bound.
+ */
+function applyBehaviors<T extends HTMLElement, E extends EmitsConfig>(
+  schema: ComponentSchema<T, E>,
+): ComponentSchema<T, E> {
+  if (!schema.behaviors?.length) return schema;
+
+  const behaviors = flattenBehaviors(schema.behaviors);
+  const parts = [...behaviors, schema];
+
+  const props = new Map<string, PropDefinition>();
+  const events: NonNullable<ComponentSchema["events"]> = {};
+  for (const part of parts) {
+    for (const prop of part.props ?? []) props.set(prop.name, prop);
+    for (const [type, configs] of Object.entries(part.events ?? {})) {
+      events[type] = [
+        ...[events[type] ?? []].flat(),
+        ...(Array.isArray(configs) ? configs : [configs]),
+      ];
+    }
+  }
+
+  const styles = parts
+    .map((part) => part.styles)
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    ...schema,
+    props: [...props.values()],
+    children: Object.assign({}, ...parts.map((part) => part.children)),
+    events,
+    emits: Object.assign({}, ...parts.map((part) => part.emits)),
+    transitions: Object.assign({}, ...parts.map((part) => part.transitions)),
+    styles: styles || undefined,
+    behaviors,
+  };
+}
+
+/**
+ * Declare an emitted event and its detail type in `ComponentSchema.emits`.
+ * Type-only: the runtime value is an empty marker.
+ *
+ * @example
+ * emits: { change: detail<{ value: string }>(), close: detail() }
+ */
+export function detail<D = undefined>(): EventSpec<D> {
+  return {};
+}
+
 /**
  * Build the document-adopted stylesheet from accumulated component CSS.
  * Wraps every contribution in `@layer waria { ... }` so user CSS in the
  * implicit unlayered group beats library defaults regardless of specificity.
  */
-function flushWariaSheet(): void {
+function flushWariaSheet(styles: string[]): void {
   if (typeof document === "undefined") return;
-  if (pendingStyles.length === 0) return;
+  if (styles.length === 0) return;
 
-  const css = `@layer waria {\n${pendingStyles.join("\n\n")}\n}`;
+  const css = `@layer waria {\n${styles.join("\n\n")}\n}`;
 
   if (
     typeof CSSStyleSheet !== "undefined" &&
@@ -440,15 +1080,16 @@ function flushWariaSheet(): void {
     style.textContent = css;
     document.head.insertBefore(style, document.head.firstChild);
   }
-
-  pendingStyles.length = 0;
 }
 
 /**
  * Append a late-defined component's styles to the already-adopted sheet.
  */
 function appendToWariaSheet(css: string): void {
-  if (!wariaSheet) return;
+  if (!wariaSheet) {
+    flushWariaSheet([css]);
+    return;
+  }
   // Insert as a new top-level @layer waria block; the cascade folds
   // identically-named layer blocks together.
   wariaSheet.insertRule(
@@ -457,6 +1098,30 @@ function appendToWariaSheet(css: string): void {
   );
 }
 
+/**
+ * Share the document sheet with the shadow root a light-DOM component was
+ * placed in (a host page's widget, another library's component), which the
+ * document's adopted sheets don't reach.
+ */
+function adoptWariaSheet(element: HTMLElement): void {
+  const root = element.getRootNode();
+  if (!(root instanceof ShadowRoot)) return;
+
+  if (wariaSheet && "adoptedStyleSheets" in ShadowRoot.prototype) {
+    if (!root.adoptedStyleSheets.includes(wariaSheet)) {
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, wariaSheet];
+    }
+    return;
+  }
+
+  // Fallback: copy the <style> tags flushWariaSheet() injected
+  if (root.querySelector("style[data-waria]")) return;
+  const styles = document.head.querySelectorAll("style[data-waria]");
+  for (const style of Array.from(styles).reverse()) {
+    root.insertBefore(style.cloneNode(true), root.firstChild);
+  }
+}
+
 /**
  * Initialize the component library.
  *
@@ -472,21 +1137,53 @@ function appendToWariaSheet(css: string): void {
  *
  * // Now register all components
  * init();
+ *
+ * // Or register a namespaced subset: <acme-dialog>, <acme-tabs>
+ * init({ prefix: 'acme', components: ['w-dialog', 'w-tabs'] });
  * ```
  */
-export function init(): void {
+export function init(options: InitOptions = {}): void {
   if (initialized) {
     return;
   }
 
   initialized = true;
+  resolveInitialized();
+
+  const { prefix, components, transitions } = options;
+  lazy = options.lazy ?? false;
+  if (prefix !== undefined) {
+    if (/^[a-z][a-z0-9]*(-[a-z0-9]+)*$/.test(prefix)) {
+      tagPrefix = prefix;
+    } else {
+      console.error(`[waria] Invalid tag prefix "${prefix}", using "w"`);
+    }
+  }
+  if (components) {
+    selectedTags = new Set(components);
+  }
+  if (transitions) {
+    transitionOverrides = transitions;
+  }
+
+  // Lazy mode keeps the queue; the loader registers each component the
+  // first time its tag appears
+  if (lazy) return;
+
+  const schemas = pendingComponents.filter((schema) =>
+    isSelected(schema.tag),
+  );
 
   // Flush the structural stylesheet first so styles are present before any
-  // component connects.
-  flushWariaSheet();
+  // component connects. Shadow-mode styles live in their own shadow roots.
+  flushWariaSheet(
+    schemas
+      .filter((schema) => schema.styles && !schema.shadow)
+      .map((schema) => prefixStyles(schema.styles!)),
+  );
 
-  // Register all pending components
-  for (const schema of pendingComponents) {
+  // Register the selected components
+  for (const schema of schemas) {
     registerComponent(schema);
   }
 
@@ -494,6 +1191,27 @@ export function init(): void {
   pendingComponents.length = 0;
 }
 
+/**
+ * Resolves once init() has run and every connected component has settled
+ * (see `WComponent.updateComplete`), including components connected while
+ * waiting. `pending` is awaited before each round; the loader passes its
+ * module loads.
+ */
+export async function whenReady(
+  pending: () => Promise<unknown> = () => Promise.resolve(),
+): Promise<void> {
+  await initializedPromise;
+
+  const settled = new Set<HTMLElement & WComponent>();
+  for (;;) {
+    await pending();
+    const batch = [...instances].filter((instance) => !settled.has(instance));
+    if (batch.length === 0) return;
+    for (const instance of batch) settled.add(instance);
+    await Promise.all(batch.map((instance) => instance.updateComplete));
+  }
+}
+
 /**
  * Check if the library has been initialized
  */
@@ -2,19 +2,40 @@
  * Component Factory - Declarative component definition
  */
 
-export { defineComponent, init, isInitialized } from './define';
+export {
+  defineComponent,
+  defineBehavior,
+  deferTags,
+  detail,
+  init,
+  isInitialized,
+  registerQueued,
+  resolveTag,
+  whenReady,
+} from './define';
 export { createContext, invalidateChildCache } from './context';
 export type {
+  Behavior,
   ComponentSchema,
   ComponentContext,
   PropDefinition,
   PropType,
+  PropConverter,
   ChildConfig,
   ChildDefinition,
   EventConfig,
   ViewportConfig,
   AriaConfig,
   SchemaTransitionConfig,
+  ShadowConfig,
   CleanupFn,
+  WatchCallback,
+  FormContext,
+  FormValue,
+  FormRestoreMode,
+  InitOptions,
+  EventSpec,
+  EmitsConfig,
+  EventDetails,
   WComponent,
 } from './types';
@@ -7,6 +7,7 @@ import type { Transition, TransitionConfig } from '../core/transitions';
 import type { SchedulerInstance } from '../core/scheduler';
 import type { CacheInstance } from '../core/cache';
 import type { EventScope } from '../core/events';
+import type { ErrorInfo } from '../core/diagnostics';
 
 // Property types
 export type PropType =
@@ -14,7 +15,14 @@ export type PropType =
   | typeof Number
   | typeof Boolean
   | typeof Array
-  | typeof Object;
+  | typeof Object
+  | typeof Date;
+
+// Custom attribute <-> property conversion (overrides `type`)
+export interface PropConverter<T = unknown> {
+  parse(value: string): T;
+  serialize(value: T): string | null;
+}
 
 export interface PropDefinition {
   name: string;
@@ -22,6 +30,9 @@ export interface PropDefinition {
   default?: unknown;
   reflect?: boolean;
   attribute?: string;
+  converter?: PropConverter;
+  /** Allowed values; anything else warns (dev) and falls back to `default` */
+  values?: readonly unknown[];
 }
 
 // Child configuration
@@ -64,13 +75,87 @@ export interface SchemaTransitionConfig extends TransitionConfig {
   target?: string;
 }
 
+// Shadow DOM configuration
+export interface ShadowConfig {
+  mode?: ShadowRootMode;
+  delegatesFocus?: boolean;
+}
+
+// Emitted event declaration; D is the CustomEvent detail (see detail())
+export interface EventSpec<D = undefined> {
+  readonly __detail?: D;
+}
+
+// Events a component emits, keyed by event name
+export type EmitsConfig = Record<string, EventSpec<unknown>>;
+
+// Event name -> detail type
+export type EventDetails<E extends EmitsConfig> = {
+  [K in keyof E]: E[K] extends EventSpec<infer D> ? D : never;
+};
+
+// Options for init()
+export interface InitOptions {
+  /** Prefix replacing "w" in built-in tags (`acme` registers `acme-dialog`) */
+  prefix?: string;
+  /** Canonical tags to register (`['w-dialog', 'w-tabs']`); all when omitted */
+  components?: string[];
+  /**
+   * Transition overrides per canonical tag, merged over the schema's
+   * (`{ 'w-dialog': { content: { enterKeyframes: [...] } } }`)
+   */
+  transitions?: Record<string, Record<string, TransitionConfig>>;
+  /**
+   * Define each component the first time its tag appears in the document
+   * or an open shadow root, importing its module when it isn't loaded yet
+   */
+  lazy?: boolean;
+}
+
 // Cleanup function type
 export type CleanupFn = () => void;
 
+// Prop change callback (see ComponentContext.watch)
+export type WatchCallback = (value: unknown, oldValue: unknown, name: string) => void;
+
+// Form association
+export type FormValue = string | File | FormData | null;
+export type FormRestoreMode = 'restore' | 'autocomplete';
+
+/**
+ * Form Context - ElementInternals wrapper for form-associated components.
+ * Every method is a no-op unless the schema sets `formAssociated`.
+ */
+export interface FormContext {
+  /** The host's ElementInternals (null when not form-associated) */
+  readonly internals: ElementInternals | null;
+
+  /** Disabled by the host's own attribute or an ancestor `<fieldset disabled>` */
+  readonly disabled: boolean;
+
+  /** Set the submitted value (and optional restore state) */
+  setValue(value: FormValue, state?: FormValue): void;
+
+  /** Report validity; call with no flags to mark the control valid */
+  setValidity(flags?: ValidityStateFlags, message?: string, anchor?: HTMLElement | null): void;
+
+  /** Called on `form.reset()` */
+  onReset(fn: () => void): void;
+
+  /** Called on back/forward restore and autofill */
+  onRestore(fn: (state: FormValue, mode: FormRestoreMode) => void): void;
+
+  /** Called when the disabled state changes (own attribute or fieldset) */
+  onDisabled(fn: (disabled: boolean) => void): void;
+}
+
 /**
  * Component Context - Provided to setup function
  */
-export interface ComponentContext<T extends HTMLElement = HTMLElement> {
+export interface ComponentContext<
+  T extends HTMLElement = HTMLElement,
+  E extends Record<string, unknown> = Record<string, unknown>,
+> {
   /** The custom element instance */
   element: T;
 
@@ -90,6 +175,13 @@ export interface ComponentContext<T extends HTMLElement = HTMLElement> {
     [name: string]: Transition;
   };
 
+  /**
+   * Transition `name` from the schema bound to another element, for
+   * targets that come in many (one per accordion panel). Created once per
+   * element and destroyed with the component.
+   */
+  transition(name: string, target: HTMLElement): Transition | null;
+
   /** Event scope (auto-cleanup) */
   events: EventScope;
 
@@ -102,13 +194,51 @@ export interface ComponentContext<T extends HTMLElement = HTMLElement> {
   /** Register cleanup function */
   onCleanup(fn: CleanupFn): void;
 
-  /** Query helpers */
+  /**
+   * Called when the element moves within its document (reinserted before
+   * its teardown ran, or moved with Element.moveBefore()). Setup doesn't
+   * run again for a move.
+   */
+  onMove(fn: () => void): void;
+
+  /**
+   * React to prop changes. Driven by attributeChangedCallback and batched
+   * into the next scheduler write; a callback watching several props runs
+   * once per batch. Removed automatically on disconnect.
+   */
+  watch(props: string | string[], callback: WatchCallback): CleanupFn;
+
+  /**
+   * Run `fn` now and again, synchronously, whenever a prop, ctx.state or
+   * signal it read changes. It may return a cleanup that runs before each
+   * re-run. Disposed on disconnect.
+   */
+  effect(fn: () => void | CleanupFn): CleanupFn;
+
+  /**
+   * The API a behavior listed in the schema returned from its setup.
+   * Behaviors set up before the component, so it is ready in setup().
+   */
+  use<A>(behavior: Behavior<A>): A;
+
+  /** Query helpers; they also search content teleported to the portal */
   query<E extends Element = Element>(selector: string): E | null;
   queryAll<E extends Element = Element>(selector: string): E[];
   querySlot<E extends Element = Element>(slot: string): E[];
 
+  /** Shadow root (null unless the schema sets `shadow`) */
+  shadowRoot: ShadowRoot | null;
+
+  /** Form integration (see ComponentSchema.formAssociated) */
+  form: FormContext;
+
   /** Emit custom event */
-  emit<D = unknown>(event: string, detail?: D, options?: CustomEventInit): boolean;
+  emit<K extends keyof E & string>(
+    event: K,
+    ...args: undefined extends E[K]
+      ? [detail?: E[K], options?: CustomEventInit]
+      : [detail: E[K], options?: CustomEventInit]
+  ): boolean;
 
   /** ARIA helpers */
   aria: {
@@ -122,10 +252,51 @@ export interface ComponentContext<T extends HTMLElement = HTMLElement> {
   };
 }
 
+/**
+ * Behavior - A reusable slice of a component: props, children, events,
+ * transitions, styles and setup logic, merged into every schema that lists
+ * it. The component's own definitions win on name clashes.
+ */
+export interface Behavior<A = unknown> {
+  /** Identifies the behavior in warnings */
+  name: string;
+
+  props?: PropDefinition[];
+
+  children?: {
+    [key: string]: ChildDefinition;
+  };
+
+  events?: {
+    [eventType: string]: EventConfig | EventConfig[];
+  };
+
+  emits?: EmitsConfig;
+
+  transitions?: {
+    [name: string]: SchemaTransitionConfig;
+  };
+
+  styles?: string;
+
+  /** Behaviors this one builds on; each is set up once per component */
+  behaviors?: Behavior[];
+
+  /**
+   * Runs before the component's setup, in list order. The return value is
+   * the API the component reads with `ctx.use(behavior)`; register
+   * teardown with `ctx.onCleanup`.
+   */
+  setup?: (ctx: ComponentContext) => A;
+}
+
 /**
  * Component Schema - Declarative configuration for defineComponent
  */
-export interface ComponentSchema<T extends HTMLElement = HTMLElement> {
+export interface ComponentSchema<
+  T extends HTMLElement = HTMLElement,
+  E extends EmitsConfig = EmitsConfig,
+> {
   /** Custom element tag name (must include hyphen) */
   tag: string;
 
@@ -142,6 +313,19 @@ export interface ComponentSchema<T extends HTMLElement = HTMLElement> {
     [eventType: string]: EventConfig | EventConfig[];
   };
 
+  /**
+   * Events this component emits, with their detail types:
+   * `{ change: detail<{ value: string }>() }`. Types `ctx.emit` and feeds
+   * the generated element event maps.
+   */
+  emits?: E;
+
+  /**
+   * Behaviors (see defineBehavior) contributing props, children, events,
+   * transitions, styles and setup logic
+   */
+  behaviors?: Behavior[];
+
   /** Viewport event handling (RAF-throttled) */
   viewport?: boolean | ViewportConfig;
 
@@ -154,7 +338,25 @@ export interface ComponentSchema<T extends HTMLElement = HTMLElement> {
   aria?: AriaConfig;
 
   /** Lifecycle setup */
-  setup?: (ctx: ComponentContext<T>) => void | CleanupFn;
+  setup?: (ctx: ComponentContext<T, EventDetails<E>>) => void | CleanupFn;
+
+  /**
+   * Called with errors thrown by this component's setup, cleanups, watchers,
+   * listeners, state subscribers and scheduled tasks, before App.onError
+   * handlers. When setup throws, the element is torn down first, so this is
+   * the place to render a fallback into `info.element`.
+   */
+  onError?: (error: unknown, info: ErrorInfo) => void;
+
+  /**
+   * Make the element a form-associated custom element.
+   *
+   * The factory attaches `ElementInternals`, exposes the native form-control
+   * surface (`form`, `validity`, `checkValidity()`, ...) and routes the
+   * reset/restore/disabled lifecycle callbacks to `ctx.form` hooks. The
+   * submitted field name comes from the host's `name` attribute.
+   */
+  formAssociated?: boolean;
 
   /** Methods to add to the element prototype */
   methods?: {
@@ -174,6 +376,18 @@ export interface ComponentSchema<T extends HTMLElement = HTMLElement> {
    * geometry) — never for aesthetics (colors, fonts, spacing).
    */
   styles?: string;
+
+  /**
+   * Render into a shadow root instead of the light DOM (default: light DOM).
+   *
+   * The factory attaches the root (open unless configured otherwise),
+   * adopts this component's `styles` into it instead of the document-level
+   * sheet, and projects every `<w-slot>` child into a native `<slot>` named
+   * after it (`<w-slot trigger>` -> `<slot name="trigger">`); anything else
+   * lands in the default slot. Write host rules with `:host` and projected
+   * rules with `::slotted()`.
+   */
+  shadow?: boolean | ShadowConfig;
 }
 
 /**
@@ -182,4 +396,9 @@ export interface ComponentSchema<T extends HTMLElement = HTMLElement> {
 export interface WComponent extends HTMLElement {
   /** Update the component (re-query children, etc.) */
   $update(): void;
+  /**
+   * Resolves once this instance has no scheduler tasks or transitions
+   * pending, so the DOM it manages is stable
+   */
+  readonly updateComplete: Promise<void>;
 }
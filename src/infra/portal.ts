@@ -2,6 +2,8 @@
  * Portal - Manages floating element containers with z-index stacking
  */
 
+import { setLogicalParent } from '../core/logical';
+
 const PORTAL_ID = 'w-portal';
 const BASE_Z_INDEX = 1000;
 
@@ -10,10 +12,31 @@ interface PortalStack {
   zIndex: number;
 }
 
+// Element.moveBefore(): an atomic move that keeps focus, animations and
+// custom elements connected (they get connectedMoveCallback instead)
+type MoveTarget = Element & { moveBefore?(node: Node, child: Node | null): void };
+
 // Global portal container and stack
 let portalContainer: HTMLElement | null = null;
 const stack: PortalStack[] = [];
 
+/**
+ * Insert `node` before `before` in `parent`, moving it in place where
+ * the browser supports it
+ */
+function moveNode(parent: Element, node: Element, before: Node | null): void {
+  const target = parent as MoveTarget;
+  if (target.moveBefore && parent.isConnected && node.isConnected) {
+    try {
+      target.moveBefore(node, before);
+      return;
+    } catch {
+      // Across documents or shadow trees; fall back to a plain insert
+    }
+  }
+  parent.insertBefore(node, before);
+}
+
 /**
  * Get or create the portal container element
  */
@@ -131,7 +154,7 @@ export function createPortal(id?: string): Portal {
       const zIndex = pushStack(element);
       element.style.zIndex = String(zIndex);
       element.style.pointerEvents = 'auto';
-      target.appendChild(element);
+      moveNode(target, element, null);
     },
 
     unmount(element: HTMLElement): void {
@@ -150,7 +173,9 @@ export function createPortal(id?: string): Portal {
 }
 
 /**
- * Teleport an element to the portal container
+ * Teleport an element to the portal container. It keeps its original parent
+ * as logical parent, so the owning component's delegated events and
+ * queries still reach it.
  */
 export function teleport(element: HTMLElement): () => void {
   const originalParent = element.parentElement;
@@ -160,13 +185,15 @@ export function teleport(element: HTMLElement): () => void {
   const zIndex = pushStack(element);
   element.style.zIndex = String(zIndex);
   element.style.pointerEvents = 'auto';
-  container.appendChild(element);
+  moveNode(container, element, null);
+  if (originalParent) setLogicalParent(element, originalParent);
 
   // Return cleanup function
   return () => {
     popStack(element);
+    setLogicalParent(element, null);
     if (originalParent) {
-      originalParent.insertBefore(element, originalNextSibling);
+      moveNode(originalParent, element, originalNextSibling);
     } else {
       element.remove();
     }
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { defineComponent, init } from "./factory";
+import { startLoader, whenLoaded } from "./loader";
+import "./components/separator";
+
+defineComponent({ tag: "x-before", setup() {} });
+
+init({ lazy: true });
+startLoader({ lazy: true });
+
+describe("lazy loader", () => {
+  it("leaves library components undefined until their tag appears", async () => {
+    expect(customElements.get("w-separator")).toBeUndefined();
+
+    document.body.append(document.createElement("w-separator"));
+    await new Promise((resolve) => setTimeout(resolve));
+    await whenLoaded();
+    expect(customElements.get("w-separator")).toBeDefined();
+  });
+
+  it("registers components defined outside the library right away", () => {
+    expect(customElements.get("x-before")).toBeDefined();
+
+    defineComponent({ tag: "x-after", setup() {} });
+    expect(customElements.get("x-after")).toBeDefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Loader - Lazy component registration
+ *
+ * With `init({ lazy: true })` no component is defined up front. A
+ * MutationObserver watches the document and every open shadow root, and
+ * each `w-*` tag is defined the first time it appears: straight from the
+ * queue when its module is already loaded, otherwise after importing it.
+ * Components defined outside the library register right away.
+ */
+import {
+  deferTags,
+  registerQueued,
+  resolveTag,
+  type InitOptions,
+} from "./factory";
+import { report } from "./core/diagnostics";
+
+// Component modules by canonical tag
+const MODULES: Record<string, () => Promise<unknown>> = {
+  "w-accordion": () => import("./components/accordion"),
+  "w-aspect-ratio": () => import("./components/aspect-ratio"),
+  "w-avatar": () => import("./components/avatar"),
+  "w-breadcrumb": () => import("./components/breadcrumb"),
+  "w-carousel": () => import("./components/carousel"),
+  "w-choice": () => import("./components/choice"),
+  "w-collapsible": () => import("./components/collapsible"),
+  "w-context-menu": () => import("./components/context-menu"),
+  "w-dialog": () => import("./components/dialog"),
+  "w-feed": () => import("./components/feed"),
+  "w-grid": () => import("./components/grid"),
+  "w-hover-card": () => import("./components/hover-card"),
+  "w-label": () => import("./components/label"),
+  "w-link": () => import("./components/link"),
+  "w-menu": () => import("./components/menu"),
+  "w-nav": () => import("./components/navigation"),
+  "w-popover": () => import("./components/popover"),
+  "w-progressbar": () => import("./components/progressbar"),
+  "w-range": () => import("./components/range"),
+  "w-scrollbar": () => import("./components/scrollbar"),
+  "w-select": () => import("./components/select"),
+  "w-separator": () => import("./components/separator"),
+  "w-slot": () => import("./components/slot"),
+  "w-spinbutton": () => import("./components/spinbutton"),
+  "w-split": () => import("./components/split"),
+  "w-switch": () => import("./components/switch"),
+  "w-tabs": () => import("./components/tabs"),
+  "w-toast": () => import("./components/toast"),
+  "w-toggles": () => import("./components/toggles"),
+  "w-toolbar": () => import("./components/toolbar"),
+  "w-tooltip": () => import("./components/tooltip"),
+  "w-tree": () => import("./components/tree"),
+  "w-treegrid": () => import("./components/treegrid"),
+  "w-view": () => import("./components/view"),
+};
+
+// Registered tag (prefixed) -> canonical tag, for the selected components
+const canonicalTags = new Map<string, string>();
+
+// Tags being loaded or already defined
+const loading = new Map<string, Promise<void>>();
+
+// Roots the observer already watches
+const observed = new WeakSet<Node>();
+
+let observer: MutationObserver | null = null;
+
+function load(tag: string, element: HTMLElement): Promise<void> {
+  let pending = loading.get(tag);
+  if (pending) return pending;
+
+  pending = registerQueued(tag)
+    ? Promise.resolve()
+    : MODULES[tag]().then(
+        // A module imported earlier (e.g. through another component)
+        // queued its schema without registering it
+        () => void registerQueued(tag),
+        (error: unknown) => {
+          // Allow another attempt the next time the tag appears
+          loading.delete(tag);
+          report(error, "load", { tag, element });
+        }
+      );
+  loading.set(tag, pending);
+  return pending;
+}
+
+function visit(element: Element): void {
+  const tag = canonicalTags.get(element.localName);
+  if (tag && !customElements.get(element.localName)) {
+    // Shadow-mode components attach their root while upgrading
+    void load(tag, element as HTMLElement).then(() => {
+      if (element.shadowRoot) observe(element.shadowRoot);
+    });
+  } else if (element.shadowRoot) {
+    observe(element.shadowRoot);
+  }
+}
+
+function scan(root: Element | Document | ShadowRoot): void {
+  if (root instanceof Element) visit(root);
+  root.querySelectorAll("*").forEach(visit);
+}
+
+function observe(root: Document | ShadowRoot): void {
+  if (observed.has(root)) return;
+  observed.add(root);
+  observer!.observe(root, { childList: true, subtree: true });
+  scan(root);
+}
+
+/**
+ * Resolves once every module load started so far has finished
+ */
+export function whenLoaded(): Promise<unknown> {
+  return Promise.all(loading.values());
+}
+
+/**
+ * Start defining components as their tags appear. Called by App.init() when
+ * `lazy` is set.
+ */
+export function startLoader(options: InitOptions = {}): void {
+  if (observer || typeof MutationObserver === "undefined") return;
+
+  const { components } = options;
+  for (const tag of Object.keys(MODULES)) {
+    if (components && tag !== "w-slot" && !components.includes(tag)) continue;
+    canonicalTags.set(resolveTag(tag), tag);
+  }
+  // Components defined outside the library have no module to wait for
+  deferTags(Object.keys(MODULES));
+
+  observer = new MutationObserver((records) => {
+    for (const record of records) {
+      record.addedNodes.forEach((node) => {
+        if (node instanceof Element) scan(node);
+      });
+    }
+  });
+  observe(document);
+}
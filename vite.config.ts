@@ -1,8 +1,21 @@
+/// <reference types="vitest/config" />
+import { readdirSync } from "node:fs";
 import { defineConfig } from "vite";
 import type { MinifyOptions } from "terser";
 
 const globalName = "waria";
 
+// One ES entry per component (`@dufeut/waria/components/dialog`) so pages
+// only bundle the components they import.
+const componentEntries = Object.fromEntries(
+  readdirSync("src/components")
+    .filter((file) => file.endsWith(".ts") && file !== "index.ts")
+    .map((file) => [
+      `components/${file.slice(0, -3)}`,
+      `src/components/${file}`,
+    ])
+);
+
 const terserOptions: MinifyOptions = {
   compress: {
     passes: 4,
@@ -45,41 +58,64 @@ const terserOptions: MinifyOptions = {
   ecma: 2020,
 };
 
-export default defineConfig({
-  build: {
-    lib: {
-      entry: "src/index.ts",
-      name: "waria",
-      fileName: (format) => `waria.${format}.js`,
-      formats: ["es", "iife"],
-    },
-    minify: "terser",
-    terserOptions,
-    target: "es2022",
-    rollupOptions: {
-      // Bundle all dependencies (including nanostores) for both formats
-      external: [],
-      treeshake: {
-        moduleSideEffects: true, // Components have side effects (they register themselves)
-        propertyReadSideEffects: false,
-        tryCatchDeoptimization: false,
-      },
-      output: [
-        {
-          format: "es",
-          entryFileNames: "index.js",
-          assetFileNames: "index[extname]",
-        },
-        {
-          format: "iife",
-          name: globalName,
-          entryFileNames: `${globalName}.iife.js`,
-          assetFileNames: "index[extname]",
+// `vite build` emits the multi-entry ES build, `vite build --mode iife` the
+// single-file global bundle (IIFE output can't be split into entries).
+export default defineConfig(({ mode }) => {
+  const iife = mode === "iife";
+
+  return {
+    build: {
+      lib: iife
+        ? {
+            entry: "src/index.ts",
+            name: globalName,
+            formats: ["iife"],
+          }
+        : {
+            entry: {
+              index: "src/index.ts",
+              api: "src/api.ts",
+              ...componentEntries,
+            },
+            formats: ["es"],
+          },
+      // The IIFE pass writes next to the ES build
+      emptyOutDir: !iife,
+      minify: "terser",
+      terserOptions,
+      target: "es2022",
+      rollupOptions: {
+        // Bundle all dependencies (including nanostores) for both formats
+        external: [],
+        treeshake: {
+          moduleSideEffects: true, // Components have side effects (they register themselves)
+          propertyReadSideEffects: false,
+          tryCatchDeoptimization: false,
         },
-      ],
+        output: iife
+          ? {
+              format: "iife",
+              name: globalName,
+              entryFileNames: `${globalName}.iife.js`,
+              // The lazy loader's import()s point at modules already in the bundle
+              inlineDynamicImports: true,
+              assetFileNames: "index[extname]",
+            }
+          : {
+              format: "es",
+              entryFileNames: "[name].js",
+              chunkFileNames: "chunks/[name]-[hash].js",
+              assetFileNames: "index[extname]",
+            },
+      },
     },
-  },
-  server: {
-    open: true,
-  },
+    server: {
+      open: true,
+    },
+    // Unit tests sit next to the module they cover (`*.spec.ts`)
+    test: {
+      include: ["src/**/*.spec.ts"],
+      environment: "happy-dom",
+    },
+  };
 });